@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
 import { AudioAnalysisData } from './AudioPlayerProvider';
 import tinycolor from 'tinycolor2';
+import { AccessibilityPolicy, CONTRAST_PAIRS, DEFAULT_ACCESSIBILITY_POLICY, checkContrastPolicy, keysOfPairs } from '../colors/accessibility';
+import { VSCodeConfig } from '../vscode/config';
+import { ThemeColorResolver } from '../vscode/themeColors';
 
 export class ReactiveThemeController {
     private baseColors: Map<string, string> = new Map();
@@ -12,8 +15,11 @@ export class ReactiveThemeController {
     private lastHue = 0;
     private lastSaturation = 50;
     private lastBrightness = 50;
+    // Same guardrails as the MCP write tools, checked on every frame
+    private policy: AccessibilityPolicy = DEFAULT_ACCESSIBILITY_POLICY;
+    private themeColors: Record<string, string> = {};
 
-    constructor() {
+    constructor(private readonly resolver: ThemeColorResolver) {
         // Store original colors when activated
         // Load smoothing factor from configuration, default to 0.3
         this.smoothingFactor = vscode.workspace.getConfiguration('8b-theme-mcp').get<number>('audioReactive.smoothingFactor', 0.3);
@@ -24,6 +30,7 @@ export class ReactiveThemeController {
 
         this.isActive = true;
         this.captureBaseColors();
+        this.loadGuardrails();
         vscode.window.showInformationMessage('🎵 Audio-reactive theme activated! Your colors will dance to the music!');
     }
 
@@ -46,6 +53,26 @@ export class ReactiveThemeController {
         });
     }
 
+    /**
+     * Read the accessibility policy and the colors frames are drawn against
+     * (foregrounds the frames don't set come from the theme)
+     */
+    private loadGuardrails() {
+        const config = new VSCodeConfig();
+        this.policy = config.getAccessibilityPolicy();
+        this.themeColors = {};
+
+        this.resolver.resolve(config, undefined, keysOfPairs(CONTRAST_PAIRS)).then(effective => {
+            for (const [key, color] of Object.entries(effective.colors)) {
+                if (color.effectiveValue) {
+                    this.themeColors[key] = color.effectiveValue;
+                }
+            }
+        }, error => {
+            console.warn('[ReactiveThemeController] Could not resolve theme colors:', error instanceof Error ? error.message : error);
+        });
+    }
+
     private restoreBaseColors() {
         const config = vscode.workspace.getConfiguration();
         const restored: Record<string, string> = {};
@@ -136,9 +163,17 @@ export class ReactiveThemeController {
             'list.focusOutline': accentColor,
         };
 
+        // Nobody can act on a warning between beats, so warn behaves like autoFix
+        // here; block drops the frame and keeps the last readable one
+        const check = checkContrastPolicy(colorCustomizations, this.themeColors, {
+            ...this.policy,
+            mode: this.policy.mode === 'block' ? 'block' : 'autoFix',
+        });
+        if (check.blocked) return;
+
         // Apply the colors
         const config = vscode.workspace.getConfiguration();
-        config.update('workbench.colorCustomizations', colorCustomizations, vscode.ConfigurationTarget.Workspace);
+        config.update('workbench.colorCustomizations', check.colors, vscode.ConfigurationTarget.Workspace);
     }
 
     private smooth(current: number, target: number, factor: number): number {
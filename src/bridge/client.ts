@@ -9,10 +9,11 @@
  *
  * Key Features:
  * - Generic type safety: BridgeRequest<M> and BridgeResponse<M> enforce correct param/result types
- * - HTTP communication via localhost
+ * - HTTP communication via localhost, authenticated with the BRIDGE_TOKEN session secret
  * - Configurable timeout using BRIDGE_REQUEST_TIMEOUT_MS constant
  * - Error handling for connection failures
  * - Automatic cleanup of pending requests on timeout or completion
+ * - subscribe() for the server-sent event stream, reconnecting with backoff
  *
  * Usage:
  *   const bridge = new BridgeClient();
@@ -27,22 +28,48 @@ import {
   BridgeMethodParams,
   BridgeMethodResult,
   BRIDGE_REQUEST_TIMEOUT_MS,
+  BRIDGE_TOKEN_HEADER,
+  BRIDGE_EVENTS_PATH,
+  BridgeEvent,
   ConfigurationTarget,
+  ChangeOrigin,
+  ColorScope,
+  ColorInspection,
+  EffectiveColors,
+  HistoryEntry,
+  ThemeSnapshot,
+  ThemeSnapshotSummary,
+  ActiveThemeInfo,
+  TokenColorCustomizations,
+  ThemeScopeInfo,
+  MoodPresetFiles,
+  CustomMood,
+  PreviewStatus,
+  TransactionOperation,
+  TransactionResult,
 } from './protocol';
+import type { ColorChange } from '../mcp/types';
 import * as http from 'http';
 import type { ColorMap } from '../colors/groups';
+import type { AccessibilityPolicy } from '../colors/accessibility';
 
 export class BridgeClient {
   private requestId = 0;
   private bridgeUrl: string;
+  private token: string;
 
   constructor() {
-    // Get bridge URL from environment variable (set by extension)
+    // Get bridge URL and session secret from environment variables (set by extension)
     const port = process.env.BRIDGE_PORT;
     if (!port) {
       throw new Error('BRIDGE_PORT environment variable not set');
     }
+    const token = process.env.BRIDGE_TOKEN;
+    if (!token) {
+      throw new Error('BRIDGE_TOKEN environment variable not set');
+    }
     this.bridgeUrl = `http://127.0.0.1:${port}`;
+    this.token = token;
     console.error(`[BridgeClient] Connecting to bridge at ${this.bridgeUrl}`);
   }
 
@@ -72,7 +99,8 @@ export class BridgeClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Content-Length': Buffer.byteLength(reqData)
+          'Content-Length': Buffer.byteLength(reqData),
+          [BRIDGE_TOKEN_HEADER]: this.token
         },
         timeout
       };
@@ -108,22 +136,51 @@ export class BridgeClient {
   /**
    * Get all current color customizations
    *
-   * @param target - Optional configuration target (Global/Workspace/WorkspaceFolder)
+   * "[Theme Name]" blocks matching the theme are flattened into the result.
+   * With scope.target, only that settings level is read; otherwise the merged value.
+   *
+   * @param scope - Optional configuration target, theme scope (default: active theme) and folder
    * @returns Promise resolving to map of color keys to hex values
    */
-  async getCurrentColors(target?: ConfigurationTarget): Promise<ColorMap> {
-    return this.call('getCurrentColors', { target });
+  async getCurrentColors(scope?: ColorScope): Promise<ColorMap> {
+    return this.call('getCurrentColors', { ...scope });
   }
 
   /**
    * Get current value of a specific color key
    *
    * @param key - Color key (e.g., "editor.background")
-   * @param target - Optional configuration target
+   * @param scope - Optional configuration target and theme scope
    * @returns Promise resolving to hex color value or undefined if not set
    */
-  async getColor(key: string, target?: ConfigurationTarget): Promise<string | undefined> {
-    return this.call('getColor', { key, target });
+  async getColor(key: string, scope?: ColorScope): Promise<string | undefined> {
+    return this.call('getColor', { key, ...scope });
+  }
+
+  /**
+   * Get a color's value at every settings level (default, user, workspace, folder)
+   * and which level the effective value comes from
+   *
+   * @param key - Color key (e.g., "editor.background")
+   * @param scope - Optional theme scope and workspace folder
+   * @returns Promise resolving to per-level values
+   */
+  async inspectColor(key: string, scope?: ColorScope): Promise<ColorInspection> {
+    return this.call('inspectColor', { key, ...scope });
+  }
+
+  /**
+   * Resolve the colors VS Code actually renders, including keys the user never customized
+   *
+   * Each key comes from the customizations, else the base theme's file, else
+   * VS Code's default for the theme kind.
+   *
+   * @param keys - Keys to resolve (default: every known key)
+   * @param scope - Optional theme scope (default: active theme) and workspace folder
+   * @returns Promise resolving to effective values with their source
+   */
+  async getEffectiveColors(keys?: string[], scope?: ColorScope): Promise<EffectiveColors> {
+    return this.call('getEffectiveColors', { keys, ...scope });
   }
 
   /**
@@ -131,11 +188,12 @@ export class BridgeClient {
    *
    * @param key - Color key (e.g., "editor.background")
    * @param value - Hex color value (e.g., "#1a1a1a")
-   * @param target - Optional configuration target
+   * @param scope - Optional configuration target and theme scope
+   * @param origin - Optional tool that requested the change (recorded in history)
    * @returns Promise resolving when color is set
    */
-  async setColor(key: string, value: string, target?: ConfigurationTarget): Promise<void> {
-    return this.call('setColor', { key, value, target });
+  async setColor(key: string, value: string, scope?: ColorScope, origin?: ChangeOrigin): Promise<void> {
+    return this.call('setColor', { key, value, ...scope, origin });
   }
 
   /**
@@ -144,11 +202,12 @@ export class BridgeClient {
    * More efficient than calling setColor multiple times when updating many colors.
    *
    * @param colors - Map of color keys to hex values
-   * @param target - Optional configuration target
+   * @param scope - Optional configuration target and theme scope
+   * @param origin - Optional tool that requested the change (recorded in history)
    * @returns Promise resolving when all colors are set
    */
-  async setColors(colors: ColorMap, target?: ConfigurationTarget): Promise<void> {
-    return this.call('setColors', { colors, target });
+  async setColors(colors: ColorMap, scope?: ColorScope, origin?: ChangeOrigin): Promise<void> {
+    return this.call('setColors', { colors, ...scope, origin });
   }
 
   /**
@@ -157,23 +216,380 @@ export class BridgeClient {
    * Removes the color customization, allowing the active theme's value to show through.
    *
    * @param key - Color key (e.g., "editor.background")
-   * @param target - Optional configuration target
+   * @param scope - Optional configuration target and theme scope
+   * @param origin - Optional tool that requested the change (recorded in history)
    * @returns Promise resolving when color is reset
    */
-  async resetColor(key: string, target?: ConfigurationTarget): Promise<void> {
-    return this.call('resetColor', { key, target });
+  async resetColor(key: string, scope?: ColorScope, origin?: ChangeOrigin): Promise<void> {
+    return this.call('resetColor', { key, ...scope, origin });
   }
 
   /**
    * Reset all color customizations
    *
-   * Removes all workbench.colorCustomizations, restoring the active theme's defaults.
+   * Removes the unscoped workbench.colorCustomizations (or one theme block when
+   * scope.themeScope is set), restoring the active theme's defaults.
    *
-   * @param target - Optional configuration target
+   * @param scope - Optional configuration target and theme scope
+   * @param origin - Optional tool that requested the change (recorded in history)
    * @returns Promise resolving when all colors are reset
    */
-  async resetAllColors(target?: ConfigurationTarget): Promise<void> {
-    return this.call('resetAllColors', { target });
+  async resetAllColors(scope?: ColorScope, origin?: ChangeOrigin): Promise<void> {
+    return this.call('resetAllColors', { ...scope, origin });
+  }
+
+  /**
+   * Revert the most recent change made through the bridge
+   *
+   * @param target - Optional configuration target (each target has its own history)
+   * @returns Promise resolving to the reverted entry, or null if there was nothing to undo
+   */
+  async undo(target?: ConfigurationTarget): Promise<HistoryEntry | null> {
+    return this.call('undo', { target });
+  }
+
+  /**
+   * Re-apply the most recently undone change
+   *
+   * @param target - Optional configuration target
+   * @returns Promise resolving to the re-applied entry, or null if there was nothing to redo
+   */
+  async redo(target?: ConfigurationTarget): Promise<HistoryEntry | null> {
+    return this.call('redo', { target });
+  }
+
+  /**
+   * List the undo/redo history, newest entries first
+   *
+   * @param target - Optional configuration target
+   * @param limit - Optional maximum number of entries per stack
+   * @returns Promise resolving to the undo and redo stacks
+   */
+  async listHistory(target?: ConfigurationTarget, limit?: number): Promise<{ undo: HistoryEntry[]; redo: HistoryEntry[] }> {
+    return this.call('listHistory', { target, limit });
+  }
+
+  /**
+   * Save the current color customizations as a named snapshot
+   *
+   * @param name - Snapshot name (e.g., "demo-day")
+   * @param description - Optional note
+   * @param overwrite - Replace an existing snapshot with the same name
+   * @param scope - Optional settings level and theme block to save (default: every level and block)
+   * @returns Promise resolving to the saved snapshot summary
+   */
+  async saveSnapshot(name: string, description?: string, overwrite?: boolean, scope?: ColorScope): Promise<ThemeSnapshotSummary> {
+    return this.call('saveSnapshot', { name, description, overwrite, ...scope });
+  }
+
+  /**
+   * List saved snapshots, newest first
+   *
+   * @returns Promise resolving to snapshot summaries
+   */
+  async listSnapshots(): Promise<ThemeSnapshotSummary[]> {
+    return this.call('listSnapshots', {});
+  }
+
+  /**
+   * Get a saved snapshot, including its colors
+   *
+   * @param name - Snapshot name
+   * @returns Promise resolving to the snapshot (rejects if it does not exist)
+   */
+  async getSnapshot(name: string): Promise<ThemeSnapshot> {
+    return this.call('getSnapshot', { name });
+  }
+
+  /**
+   * Replace current color customizations with a saved snapshot
+   *
+   * @param name - Snapshot name
+   * @param scope - Optional settings level and theme block to restore (default: every saved one)
+   * @param origin - Optional tool that requested the change (recorded in history)
+   * @returns Promise resolving to the keys that changed
+   */
+  async restoreSnapshot(name: string, scope?: ColorScope, origin?: ChangeOrigin): Promise<ColorChange[]> {
+    return this.call('restoreSnapshot', { name, ...scope, origin });
+  }
+
+  /**
+   * Delete a saved snapshot
+   *
+   * @param name - Snapshot name
+   * @returns Promise resolving to true if the snapshot existed
+   */
+  async deleteSnapshot(name: string): Promise<boolean> {
+    return this.call('deleteSnapshot', { name });
+  }
+
+  /**
+   * Compare two snapshots, or a snapshot against the current colors
+   *
+   * @param from - Snapshot name providing the old values
+   * @param to - Optional snapshot name providing the new values (default: current colors)
+   * @param scope - Optional theme scope used to resolve current colors
+   * @returns Promise resolving to the keys that differ
+   */
+  async diffSnapshots(from: string, to?: string, scope?: ColorScope): Promise<ColorChange[]> {
+    return this.call('diffSnapshots', { from, to, ...scope });
+  }
+
+  /**
+   * Get the active base theme
+   *
+   * @returns Promise resolving to the theme name and kind (dark/light/high contrast)
+   */
+  async getActiveTheme(): Promise<ActiveThemeInfo> {
+    return this.call('getActiveTheme', {});
+  }
+
+  /**
+   * Get the accessibility guardrail settings write tools must respect
+   *
+   * @param folderUri - Optional workspace folder whose settings to read
+   * @returns Promise resolving to the minimum contrast and mode
+   */
+  async getAccessibilityPolicy(folderUri?: string): Promise<AccessibilityPolicy> {
+    return this.call('getAccessibilityPolicy', { folderUri });
+  }
+
+  /**
+   * Get current syntax token customizations
+   *
+   * @param scope - Optional configuration target and theme scope (default: active theme)
+   * @returns Promise resolving to TextMate and semantic token rules
+   */
+  async getTokenColors(scope?: ColorScope): Promise<TokenColorCustomizations> {
+    return this.call('getTokenColors', { ...scope });
+  }
+
+  /**
+   * Merge TextMate and/or semantic token rules into the current customizations
+   *
+   * @param tokenColors - Rules to merge (TextMate rules replace rules with the same scope)
+   * @param scope - Optional configuration target and theme scope
+   * @param origin - Optional tool that requested the change (recorded in history)
+   * @returns Promise resolving when rules are written
+   */
+  async setTokenColors(tokenColors: Partial<TokenColorCustomizations>, scope?: ColorScope, origin?: ChangeOrigin): Promise<void> {
+    return this.call('setTokenColors', { ...tokenColors, ...scope, origin });
+  }
+
+  /**
+   * Remove all syntax token customizations
+   *
+   * @param scope - Optional configuration target and theme scope
+   * @param origin - Optional tool that requested the change (recorded in history)
+   * @returns Promise resolving when customizations are removed
+   */
+  async resetTokenColors(scope?: ColorScope, origin?: ChangeOrigin): Promise<void> {
+    return this.call('resetTokenColors', { ...scope, origin });
+  }
+
+  /**
+   * List "[Theme Name]" blocks that have their own color overrides
+   *
+   * @param scope - Optional settings level and workspace folder to read (default: merged)
+   * @returns Promise resolving to theme scopes with key counts
+   */
+  async listThemeScopes(scope?: Pick<ColorScope, 'target' | 'folderUri'>): Promise<ThemeScopeInfo[]> {
+    return this.call('listThemeScopes', { ...scope });
+  }
+
+  /**
+   * Read mood presets from the user and workspace preset directories
+   *
+   * @returns Promise resolving to the valid presets and the validation errors
+   */
+  async getMoodPresets(): Promise<MoodPresetFiles> {
+    return this.call('getMoodPresets', {});
+  }
+
+  /**
+   * List the custom moods saved in extension global state
+   *
+   * @returns Promise resolving to the moods, oldest first
+   */
+  async listCustomMoods(): Promise<CustomMood[]> {
+    return this.call('listCustomMoods', {});
+  }
+
+  /**
+   * Save a custom mood, replacing one with the same name
+   *
+   * @param mood - Mood with its source arguments, definition and generated colors
+   * @returns Promise resolving to the saved mood
+   */
+  async saveCustomMood(mood: Omit<CustomMood, 'createdAt' | 'updatedAt'>): Promise<CustomMood> {
+    return this.call('saveCustomMood', mood);
+  }
+
+  /**
+   * Rename a custom mood
+   *
+   * @param name - Current name
+   * @param newName - New name (must not be taken)
+   * @returns Promise resolving to the renamed mood (rejects if it does not exist)
+   */
+  async renameCustomMood(name: string, newName: string): Promise<CustomMood> {
+    return this.call('renameCustomMood', { name, newName });
+  }
+
+  /**
+   * Delete a custom mood
+   *
+   * @param name - Mood name
+   * @returns Promise resolving to true if a mood was deleted
+   */
+  async deleteCustomMood(name: string): Promise<boolean> {
+    return this.call('deleteCustomMood', { name });
+  }
+
+  /**
+   * Apply colors temporarily; they revert automatically unless confirmed
+   *
+   * @param colors - Map of color keys to preview
+   * @param durationSeconds - Time until the automatic revert (default: 30)
+   * @param scope - Optional configuration target, theme scope and folder
+   * @param origin - Optional tool that requested the preview (recorded in history on confirm)
+   * @returns Promise resolving to the running preview
+   */
+  async previewColors(
+    colors: ColorMap,
+    durationSeconds?: number,
+    scope?: ColorScope,
+    origin?: ChangeOrigin
+  ): Promise<PreviewStatus> {
+    return this.call('previewColors', { colors, durationSeconds, ...scope, origin });
+  }
+
+  /**
+   * Keep the previewed colors (recorded in history as one undoable change)
+   *
+   * @returns Promise resolving to the keys kept
+   */
+  async confirmPreview(): Promise<ColorChange[]> {
+    return this.call('confirmPreview', {});
+  }
+
+  /**
+   * Revert the previewed colors now
+   *
+   * @returns Promise resolving to the keys reverted (empty if no preview was running)
+   */
+  async cancelPreview(): Promise<ColorChange[]> {
+    return this.call('cancelPreview', {});
+  }
+
+  /**
+   * Apply an ordered list of operations all-or-nothing
+   *
+   * The extension host runs it after any other pending write and writes it in a
+   * single update, so concurrent tool calls cannot lose each other's keys.
+   *
+   * @param operations - Ordered set/reset/resetAll/setTokenColor operations
+   * @param scope - Optional configuration target, theme scope and folder
+   * @param origin - Optional tool that requested the change (recorded in history)
+   * @returns Promise resolving to per-operation results (nothing written if not committed)
+   */
+  async transaction(
+    operations: TransactionOperation[],
+    scope?: ColorScope,
+    origin?: ChangeOrigin
+  ): Promise<TransactionResult> {
+    return this.call('transaction', { operations, ...scope, origin });
+  }
+
+  /**
+   * Receive color and theme change events from the extension host
+   *
+   * Keeps a server-sent event stream open and reconnects (1s, doubling up to
+   * 30s) whenever it drops. Events that happen while disconnected are lost, so
+   * onReconnect lets callers treat a reconnect as "anything may have changed".
+   * The connection does not keep the process alive.
+   *
+   * @param onEvent - Called for every event
+   * @param onReconnect - Called when the stream comes back after a drop
+   * @returns Function that closes the stream for good
+   */
+  subscribe(onEvent: (event: BridgeEvent) => void, onReconnect?: () => void): () => void {
+    let closed = false;
+    let connectedBefore = false;
+    let delay = 1000;
+    let current: http.ClientRequest | undefined;
+    let retryTimer: NodeJS.Timeout | undefined;
+
+    const retry = () => {
+      if (closed || retryTimer) {
+        return;
+      }
+      retryTimer = setTimeout(() => {
+        retryTimer = undefined;
+        connect();
+      }, delay);
+      retryTimer.unref();
+      delay = Math.min(delay * 2, 30000);
+    };
+
+    const connect = () => {
+      current = http.request(`${this.bridgeUrl}${BRIDGE_EVENTS_PATH}`, {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', [BRIDGE_TOKEN_HEADER]: this.token },
+      }, (res) => {
+        if (res.statusCode !== 200) {
+          console.error(`[BridgeClient] Event stream refused: HTTP ${res.statusCode}`);
+          res.resume();
+          retry();
+          return;
+        }
+
+        delay = 1000;
+        if (connectedBefore) {
+          onReconnect?.();
+        }
+        connectedBefore = true;
+
+        // Events are separated by a blank line; only "data:" lines carry JSON
+        let buffer = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          let end: number;
+          while ((end = buffer.indexOf('\n\n')) >= 0) {
+            const block = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            const data = block.split('\n')
+              .filter(line => line.startsWith('data:'))
+              .map(line => line.slice(5).trimStart())
+              .join('\n');
+            if (!data) {
+              continue;
+            }
+            try {
+              onEvent(JSON.parse(data) as BridgeEvent);
+            } catch (error) {
+              console.error('[BridgeClient] Ignoring bad event:', error instanceof Error ? error.message : error);
+            }
+          }
+        });
+        res.on('close', retry);
+      });
+
+      current.on('socket', socket => socket.unref());
+      current.on('error', retry);
+      current.end();
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+      }
+      current?.destroy();
+    };
   }
 
 }
@@ -0,0 +1,184 @@
+import type { ColorMap } from '../colors/groups';
+import { diffColorMaps } from '../colors/diff';
+import type { ChangeOrigin, ConfigurationTarget, HistoryEntry, TokenColorCustomizations } from './protocol';
+
+/**
+ * Values to write back when undoing or redoing an entry
+ * (undefined means the key should be removed)
+ */
+export type ColorValues = Record<string, string | undefined>;
+
+/**
+ * Default number of entries kept per configuration target
+ */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * ColorHistory - bounded undo/redo journal of color customization changes
+ *
+ * Runs in the extension host alongside BridgeServer. Every mutation made through
+ * the bridge is recorded as a before/after diff (plus a before/after copy of the
+ * syntax token rules when those changed), with one independent undo and
+ * redo stack per configuration target (undoing a workspace change never touches
+ * user settings).
+ *
+ * Recording a new change clears the redo stack for that target, like any editor.
+ * The oldest entries are dropped once the limit is reached.
+ *
+ * Usage:
+ *   const history = new ColorHistory();
+ *   history.record('Global', { tool: 'setColor' }, before, after);
+ *   await history.undo('Global', values => config.applyValues(values));
+ *
+ * Undo and redo callbacks that may meet syntax rule changes also receive the
+ * token rules to write back.
+ */
+export class ColorHistory {
+  private undoStacks = new Map<ConfigurationTarget, HistoryEntry[]>();
+  private redoStacks = new Map<ConfigurationTarget, HistoryEntry[]>();
+  private nextId = 1;
+
+  constructor(private readonly limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  /**
+   * Record a change as a diff between two color maps
+   *
+   * The syntax token rules are kept whole rather than diffed, since TextMate
+   * rules are an ordered list without stable keys.
+   *
+   * @param target Configuration target the change was written to
+   * @param origin Tool (and optional detail) that caused the change
+   * @param before Customizations before the change
+   * @param after Customizations after the change
+   * @param location Theme block and workspace folder the change was written to (if any)
+   * @param tokenColors Syntax token rules at that level before and after the change (if read)
+   * @returns The recorded entry, or undefined if nothing actually changed
+   */
+  record(
+    target: ConfigurationTarget,
+    origin: ChangeOrigin,
+    before: ColorMap,
+    after: ColorMap,
+    location: Pick<HistoryEntry, 'themeScope' | 'folderUri'> = {},
+    tokenColors?: { before: TokenColorCustomizations; after: TokenColorCustomizations }
+  ): HistoryEntry | undefined {
+    const changes = diffColorMaps(before, after, origin.detail ? `${origin.tool}: ${origin.detail}` : origin.tool);
+    const tokensChanged = tokenColors !== undefined
+      && JSON.stringify(tokenColors.before) !== JSON.stringify(tokenColors.after);
+    if (changes.length === 0 && !tokensChanged) {
+      return undefined;
+    }
+
+    const entry: HistoryEntry = {
+      id: this.nextId++,
+      tool: origin.tool,
+      detail: origin.detail,
+      timestamp: new Date().toISOString(),
+      target,
+      themeScope: location.themeScope,
+      folderUri: location.folderUri,
+      changes,
+      tokenColors: tokensChanged ? tokenColors : undefined,
+    };
+
+    const undoStack = this.getStack(this.undoStacks, target);
+    undoStack.push(entry);
+    if (undoStack.length > this.limit) {
+      undoStack.splice(0, undoStack.length - this.limit);
+    }
+
+    // A fresh change invalidates anything that was undone before it
+    this.redoStacks.set(target, []);
+
+    return entry;
+  }
+
+  /**
+   * Revert the most recent entry for a target
+   *
+   * The entry only moves to the redo stack once `apply` succeeds, so a failed
+   * write leaves the history untouched.
+   *
+   * @param target Configuration target to undo in
+   * @param apply Callback that writes the previous values (and syntax rules, if the
+   *   entry changed them) back to the entry's theme scope and folder
+   * @returns The reverted entry, or undefined if there is nothing to undo
+   */
+  async undo(
+    target: ConfigurationTarget,
+    apply: (values: ColorValues, entry: HistoryEntry, tokenColors?: TokenColorCustomizations) => Promise<void>
+  ): Promise<HistoryEntry | undefined> {
+    const undoStack = this.getStack(this.undoStacks, target);
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+
+    await apply(this.valuesOf(entry, 'oldValue'), entry, entry.tokenColors?.before);
+    undoStack.pop();
+    this.getStack(this.redoStacks, target).push(entry);
+    return entry;
+  }
+
+  /**
+   * Re-apply the most recently undone entry for a target
+   *
+   * @param target Configuration target to redo in
+   * @param apply Callback that writes the new values (and syntax rules, if the
+   *   entry changed them) back to the entry's theme scope and folder
+   * @returns The re-applied entry, or undefined if there is nothing to redo
+   */
+  async redo(
+    target: ConfigurationTarget,
+    apply: (values: ColorValues, entry: HistoryEntry, tokenColors?: TokenColorCustomizations) => Promise<void>
+  ): Promise<HistoryEntry | undefined> {
+    const redoStack = this.getStack(this.redoStacks, target);
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+
+    await apply(this.valuesOf(entry, 'newValue'), entry, entry.tokenColors?.after);
+    redoStack.pop();
+    this.getStack(this.undoStacks, target).push(entry);
+    return entry;
+  }
+
+  /**
+   * List undo and redo entries for a target, newest first
+   *
+   * @param target Configuration target to list
+   * @param limit Maximum number of entries per stack (default: all)
+   */
+  list(target: ConfigurationTarget, limit?: number): { undo: HistoryEntry[]; redo: HistoryEntry[] } {
+    const newestFirst = (stack: HistoryEntry[]) => {
+      const reversed = [...stack].reverse();
+      return limit !== undefined && limit > 0 ? reversed.slice(0, limit) : reversed;
+    };
+
+    return {
+      undo: newestFirst(this.getStack(this.undoStacks, target)),
+      redo: newestFirst(this.getStack(this.redoStacks, target)),
+    };
+  }
+
+  private getStack(
+    stacks: Map<ConfigurationTarget, HistoryEntry[]>,
+    target: ConfigurationTarget
+  ): HistoryEntry[] {
+    let stack = stacks.get(target);
+    if (!stack) {
+      stack = [];
+      stacks.set(target, stack);
+    }
+    return stack;
+  }
+
+  private valuesOf(entry: HistoryEntry, side: 'oldValue' | 'newValue'): ColorValues {
+    const values: ColorValues = {};
+    for (const change of entry.changes) {
+      values[change.key] = change[side];
+    }
+    return values;
+  }
+}
@@ -6,17 +6,265 @@
  */
 
 import type { ColorMap } from '../colors/groups';
+import type { ColorChange } from '../mcp/types';
+import type { MoodPreset, SemanticTokenRules, TokenColorRule } from '../themes/MoodPresets';
+import type { MoodPresetError } from '../themes/MoodPresetLoader';
+import type { AccessibilityPolicy } from '../colors/accessibility';
 
 /**
  * Configuration target for VS Code settings
  */
 export type ConfigurationTarget = 'Global' | 'Workspace' | 'WorkspaceFolder';
 
+/**
+ * Where a color read or write applies
+ */
+export interface ColorScope {
+  target?: ConfigurationTarget;        // Settings scope (writes default to Global; reads default to the merged value)
+  themeScope?: string;                 // Theme block (e.g., "One Dark Pro" → "[One Dark Pro]"); default: unscoped keys
+  folderUri?: string;                  // Workspace folder URI or absolute path (needed for WorkspaceFolder in multi-root workspaces)
+}
+
+/**
+ * A color's value at every settings level, as reported by inspect()
+ */
+export interface ColorInspection {
+  key: string;
+  theme: string;                       // Theme the "[Theme Name]" blocks were resolved for
+  defaultValue?: string;
+  globalValue?: string;                // User settings
+  workspaceValue?: string;
+  workspaceFolderValue?: string;
+  effectiveValue?: string;             // Value VS Code applies (undefined = base theme color)
+  source?: ConfigurationTarget | 'Default';  // Level the effective value comes from
+  fromThemeBlock: boolean;             // True if the effective value comes from a "[Theme Name]" block
+}
+
+/**
+ * A "[Theme Name]" block in workbench.colorCustomizations
+ */
+export interface ThemeScopeInfo {
+  scope: string;                       // Theme name(s) without brackets (may contain "*" wildcards)
+  keyCount: number;                    // Number of colors in the block
+  appliesToActiveTheme: boolean;       // True if the block matches the active theme
+}
+
+/**
+ * Kind of the active color theme (mirrors vscode.ColorThemeKind)
+ */
+export type ThemeKind = 'dark' | 'light' | 'highContrastDark' | 'highContrastLight';
+
+/**
+ * The active base color theme
+ */
+export interface ActiveThemeInfo {
+  name: string;                        // Value of workbench.colorTheme (e.g., "Default Dark Modern")
+  kind: ThemeKind;
+}
+
+/**
+ * Where an effective color value comes from
+ */
+export type EffectiveColorSource = 'custom' | 'theme' | 'default' | 'unknown';
+
+/**
+ * A color key resolved the way VS Code renders it
+ */
+export interface EffectiveColor {
+  effectiveValue?: string;             // Value actually shown (undefined = not known)
+  customValue?: string;                // User customization, if any
+  source: EffectiveColorSource;        // custom → theme file → VS Code default for the theme kind
+}
+
+/**
+ * Effective colors of a base theme with customizations applied
+ */
+export interface EffectiveColors {
+  theme: string;                       // Theme the colors were resolved for
+  kind: ThemeKind;
+  themeFiles: string[];                // Theme file and its include chain (empty if the theme was not found)
+  colors: Record<string, EffectiveColor>;
+}
+
+/**
+ * Syntax color customizations (editor.tokenColorCustomizations.textMateRules and
+ * editor.semanticTokenColorCustomizations.rules)
+ */
+export interface TokenColorCustomizations {
+  textMateRules: TokenColorRule[];
+  semanticTokenRules: SemanticTokenRules;
+}
+
+/**
+ * Identifies which MCP tool caused a change, so history entries can explain themselves
+ */
+export interface ChangeOrigin {
+  tool: string;                        // Tool name (e.g., "applyMoodPreset")
+  detail?: string;                     // Optional context (e.g., preset name "Cyberpunk")
+}
+
+/**
+ * One entry in the per-target change journal kept by the extension host
+ */
+export interface HistoryEntry {
+  id: number;                          // Monotonic entry ID
+  tool: string;                        // Tool that made the change
+  detail?: string;                     // Optional context from ChangeOrigin
+  timestamp: string;                   // ISO 8601 time the change was applied
+  target: ConfigurationTarget;         // Settings scope the change was written to
+  themeScope?: string;                 // Theme block the change was written to (if any)
+  folderUri?: string;                  // Workspace folder the change was written to (WorkspaceFolder target only)
+  changes: ColorChange[];              // Before/after value of every affected key
+  tokenColors?: {                      // Syntax rules at the written level, when the change touched them
+    before: TokenColorCustomizations;
+    after: TokenColorCustomizations;
+  };
+}
+
+/**
+ * Colors stored at one settings level: its unscoped keys, or one "[Theme Name]" block
+ */
+export interface SnapshotLevel {
+  target: ConfigurationTarget;
+  themeScope?: string;                 // Theme block (default: the unscoped keys)
+  colors: ColorMap;                    // Colors stored there (empty = none, cleared on restore)
+}
+
+/**
+ * Named copy of the color customizations, persisted in extension global state
+ */
+export interface ThemeSnapshot {
+  name: string;                        // Unique snapshot name (e.g., "demo-day")
+  description?: string;                // Optional note from the user
+  createdAt: string;                   // ISO 8601 time the snapshot was saved
+  colors: ColorMap;                    // Colors as they applied when saved (used for diffs)
+  levels?: SnapshotLevel[];            // Where each color was stored (absent in older snapshots)
+  folderUri?: string;                  // Workspace folder whose WorkspaceFolder level was saved
+}
+
+/**
+ * Snapshot metadata returned by listings (colors omitted to keep responses small)
+ */
+export interface ThemeSnapshotSummary {
+  name: string;
+  description?: string;
+  createdAt: string;
+  keyCount: number;                    // Number of customized keys in the snapshot
+}
+
+/**
+ * A mood created by createCustomMood or themeFromImage, persisted in extension global state
+ */
+export interface CustomMood {
+  name: string;                        // Unique mood name (case-insensitive)
+  tool: string;                        // Tool that created it (e.g., "createCustomMood")
+  arguments: Record<string, unknown>;  // Tool arguments it was created (or last updated) with
+  preset: MoodPreset;                  // Definition the colors are generated from (variants regenerate from it)
+  colors: ColorMap;                    // Workbench colors generated when it was created or last updated
+  createdAt: string;                   // ISO 8601 time the mood was created
+  updatedAt: string;                   // ISO 8601 time of the last update or rename
+}
+
+/**
+ * Mood presets read from the user and workspace preset directories
+ */
+export interface MoodPresetFiles {
+  directories: string[];               // Directories searched, lowest precedence first
+  presets: MoodPreset[];               // Valid presets (source = file they came from)
+  errors: MoodPresetError[];           // Files and presets skipped because they failed validation
+}
+
+/**
+ * State of the temporary color preview
+ */
+export interface PreviewStatus extends ColorScope {
+  active: boolean;
+  keys: string[];                      // Keys currently previewed
+  secondsLeft: number;                 // Time until the automatic revert
+  expiresAt?: string;                  // ISO 8601 time of the automatic revert
+}
+
+/**
+ * One step of a transaction
+ * `expected` is an optional precondition on the stored value (null = must be unset).
+ */
+export type TransactionOperation =
+  | { op: 'set'; key: string; value: string; expected?: string | null }
+  | { op: 'reset'; key: string; expected?: string | null }
+  | { op: 'resetAll' }
+  | { op: 'setTokenColor'; scope: string; foreground?: string; fontStyle?: string; semantic?: boolean };
+
+/**
+ * What happened to one transaction operation
+ */
+export interface TransactionOperationResult {
+  index: number;                       // Position in the operation list
+  op: TransactionOperation['op'];
+  key?: string;                        // Color key or token scope
+  status: 'applied' | 'failed' | 'skipped' | 'rolledBack';  // After a failure, earlier ops are rolled back and later ones skipped
+  previousValue?: string;              // Stored value before a set/reset
+  error?: string;
+}
+
+/**
+ * Result of a transaction: either every operation was written, or none
+ */
+export interface TransactionResult {
+  committed: boolean;
+  results: TransactionOperationResult[];
+  changes: ColorChange[];              // Color keys that changed (empty when not committed)
+  tokenColorsChanged: boolean;         // True if syntax token rules changed (recorded in the same history entry)
+}
+
 /**
  * Bridge request timeout in milliseconds (30 seconds)
  */
 export const BRIDGE_REQUEST_TIMEOUT_MS = 30000;
 
+/**
+ * Header carrying the per-session secret (from the BRIDGE_TOKEN env var)
+ */
+export const BRIDGE_TOKEN_HEADER = 'x-8b-bridge-token';
+
+/**
+ * Largest request body the bridge accepts, in bytes (1 MB)
+ */
+export const BRIDGE_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Path of the server-sent event stream (GET, same token header as requests)
+ */
+export const BRIDGE_EVENTS_PATH = '/events';
+
+/**
+ * Interval between keep-alive comments on the event stream, in milliseconds
+ */
+export const BRIDGE_EVENT_KEEPALIVE_MS = 25000;
+
+/**
+ * Settings that hold color customizations
+ */
+export type ColorSetting =
+  | 'workbench.colorCustomizations'
+  | 'editor.tokenColorCustomizations'
+  | 'editor.semanticTokenColorCustomizations';
+
+export const COLOR_SETTINGS: readonly ColorSetting[] = [
+  'workbench.colorCustomizations',
+  'editor.tokenColorCustomizations',
+  'editor.semanticTokenColorCustomizations',
+];
+
+/**
+ * Event pushed from Extension host → MCP server over the event stream
+ */
+export type BridgeEvent =
+  | { type: 'colorsChanged'; settings: ColorSetting[]; timestamp: string }   // Any settings level, by us or by the user
+  | { type: 'themeChanged'; theme: ActiveThemeInfo; timestamp: string }      // Active color theme switched
+  | { type: 'snapshotsChanged'; name: string; timestamp: string }             // Snapshot saved or deleted
+  | { type: 'moodPresetsChanged'; timestamp: string }                         // Preset file created, edited or deleted
+  | { type: 'customMoodsChanged'; name: string; timestamp: string };          // Custom mood saved, renamed or deleted
+
 /**
  * Request from MCP server → Extension host
  * Generic type parameter enforces type-safe params based on method
@@ -43,22 +291,116 @@ export interface BridgeResponse<M extends BridgeMethod = BridgeMethod> {
 export type BridgeMethod =
   | 'getCurrentColors'    // Get all color customizations
   | 'getColor'           // Get specific color value (params: { key: string })
+  | 'inspectColor'       // Get a color's value at every settings level
   | 'setColor'           // Set specific color (params: { key: string, value: string })
   | 'setColors'          // Set multiple colors (params: { colors: Record<string, string> })
   | 'resetColor'         // Reset specific color (params: { key: string })
-  | 'resetAllColors';    // Reset all customizations
+  | 'resetAllColors'     // Reset all customizations
+  | 'undo'               // Revert the most recent change for a target
+  | 'redo'               // Re-apply the most recently undone change for a target
+  | 'listHistory'        // List undo/redo history for a target
+  | 'saveSnapshot'       // Save current customizations under a name
+  | 'listSnapshots'      // List saved snapshots
+  | 'getSnapshot'        // Get a saved snapshot with its colors
+  | 'restoreSnapshot'    // Replace current customizations with a snapshot
+  | 'deleteSnapshot'     // Delete a saved snapshot
+  | 'diffSnapshots'      // Compare two snapshots (or a snapshot and current colors)
+  | 'getActiveTheme'     // Get name and kind of the active base theme
+  | 'getEffectiveColors' // Resolve colors from customizations, the theme file and VS Code defaults
+  | 'getAccessibilityPolicy' // Read the minimum contrast and guardrail mode settings
+  | 'getTokenColors'     // Get syntax token customizations
+  | 'setTokenColors'     // Merge TextMate and/or semantic token rules
+  | 'resetTokenColors'   // Remove all syntax token customizations
+  | 'listThemeScopes'    // List "[Theme Name]" blocks with their own overrides
+  | 'getMoodPresets'     // Read mood presets from the user and workspace preset directories
+  | 'listCustomMoods'    // List saved custom moods
+  | 'saveCustomMood'     // Save a custom mood (replacing one with the same name)
+  | 'renameCustomMood'   // Rename a saved custom mood
+  | 'deleteCustomMood'   // Delete a saved custom mood
+  | 'previewColors'      // Apply colors temporarily (reverted unless confirmed)
+  | 'confirmPreview'     // Keep the previewed colors (recorded in history)
+  | 'cancelPreview'      // Revert the previewed colors now
+  | 'transaction';       // Apply an ordered list of operations all-or-nothing
+
+/**
+ * All bridge method names, used for runtime request validation
+ */
+export const BRIDGE_METHODS: readonly BridgeMethod[] = [
+  'getCurrentColors',
+  'getColor',
+  'inspectColor',
+  'setColor',
+  'setColors',
+  'resetColor',
+  'resetAllColors',
+  'undo',
+  'redo',
+  'listHistory',
+  'saveSnapshot',
+  'listSnapshots',
+  'getSnapshot',
+  'restoreSnapshot',
+  'deleteSnapshot',
+  'diffSnapshots',
+  'getActiveTheme',
+  'getEffectiveColors',
+  'getAccessibilityPolicy',
+  'getTokenColors',
+  'setTokenColors',
+  'resetTokenColors',
+  'listThemeScopes',
+  'getMoodPresets',
+  'listCustomMoods',
+  'saveCustomMood',
+  'renameCustomMood',
+  'deleteCustomMood',
+  'previewColors',
+  'confirmPreview',
+  'cancelPreview',
+  'transaction',
+];
 
 /**
  * Type-safe parameter types for each method
- * Now includes optional target parameter for configuration scope
+ * Color methods accept a ColorScope (configuration target + optional theme block)
  */
 export interface BridgeMethodParams {
-  getCurrentColors: { target?: ConfigurationTarget };
-  getColor: { key: string; target?: ConfigurationTarget };
-  setColor: { key: string; value: string; target?: ConfigurationTarget };
-  setColors: { colors: Record<string, string>; target?: ConfigurationTarget };
-  resetColor: { key: string; target?: ConfigurationTarget };
-  resetAllColors: { target?: ConfigurationTarget };
+  getCurrentColors: ColorScope;
+  getColor: { key: string } & ColorScope;
+  inspectColor: { key: string } & ColorScope;
+  setColor: { key: string; value: string; origin?: ChangeOrigin } & ColorScope;
+  setColors: { colors: Record<string, string>; origin?: ChangeOrigin } & ColorScope;
+  resetColor: { key: string; origin?: ChangeOrigin } & ColorScope;
+  resetAllColors: { origin?: ChangeOrigin } & ColorScope;
+  undo: { target?: ConfigurationTarget };
+  redo: { target?: ConfigurationTarget };
+  listHistory: { target?: ConfigurationTarget; limit?: number };
+  saveSnapshot: { name: string; description?: string; overwrite?: boolean } & ColorScope;
+  listSnapshots: Record<string, never>;
+  getSnapshot: { name: string };
+  restoreSnapshot: { name: string; origin?: ChangeOrigin } & ColorScope;
+  deleteSnapshot: { name: string };
+  diffSnapshots: { from: string; to?: string } & ColorScope;  // "to" omitted = current colors
+  getActiveTheme: Record<string, never>;
+  getEffectiveColors: { keys?: string[] } & ColorScope;  // keys omitted = every known key
+  getAccessibilityPolicy: { folderUri?: string };
+  getTokenColors: ColorScope;
+  setTokenColors: {
+    textMateRules?: TokenColorRule[];           // Replace rules with the same scope, append the rest
+    semanticTokenRules?: SemanticTokenRules;    // Merged by selector
+    origin?: ChangeOrigin;
+  } & ColorScope;
+  resetTokenColors: { origin?: ChangeOrigin } & ColorScope;
+  listThemeScopes: Pick<ColorScope, 'target' | 'folderUri'>;
+  getMoodPresets: Record<string, never>;
+  listCustomMoods: Record<string, never>;
+  saveCustomMood: Omit<CustomMood, 'createdAt' | 'updatedAt'>;
+  renameCustomMood: { name: string; newName: string };
+  deleteCustomMood: { name: string };
+  previewColors: { colors: Record<string, string>; durationSeconds?: number; origin?: ChangeOrigin } & ColorScope;
+  confirmPreview: Record<string, never>;
+  cancelPreview: Record<string, never>;
+  transaction: { operations: TransactionOperation[]; origin?: ChangeOrigin } & ColorScope;
 }
 
 /**
@@ -68,10 +410,39 @@ export interface BridgeMethodParams {
 export interface BridgeMethodResult {
   getCurrentColors: ColorMap;           // Returns all color customizations
   getColor: string | undefined;         // Returns color value or undefined
+  inspectColor: ColorInspection;        // Per-level values and the effective source
   setColor: void;                       // No return value
   setColors: void;                      // No return value
   resetColor: void;                     // No return value
   resetAllColors: void;                 // No return value
+  undo: HistoryEntry | null;            // Entry that was reverted, or null if nothing to undo
+  redo: HistoryEntry | null;            // Entry that was re-applied, or null if nothing to redo
+  listHistory: {                        // Newest entries first
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+  };
+  saveSnapshot: ThemeSnapshotSummary;   // The saved snapshot
+  listSnapshots: ThemeSnapshotSummary[];  // Newest first
+  getSnapshot: ThemeSnapshot;
+  restoreSnapshot: ColorChange[];       // Keys that changed when restoring
+  deleteSnapshot: boolean;              // True if a snapshot was deleted
+  diffSnapshots: ColorChange[];         // Keys that differ (oldValue = from, newValue = to)
+  getActiveTheme: ActiveThemeInfo;      // Active base theme name and kind
+  getEffectiveColors: EffectiveColors;  // Resolved values with their source
+  getAccessibilityPolicy: AccessibilityPolicy;
+  getTokenColors: TokenColorCustomizations;
+  setTokenColors: void;                 // No return value
+  resetTokenColors: void;               // No return value
+  listThemeScopes: ThemeScopeInfo[];    // Theme blocks in workbench.colorCustomizations
+  getMoodPresets: MoodPresetFiles;      // Presets and validation errors
+  listCustomMoods: CustomMood[];        // Oldest first
+  saveCustomMood: CustomMood;           // The saved mood
+  renameCustomMood: CustomMood;         // The renamed mood
+  deleteCustomMood: boolean;            // True if a mood was deleted
+  previewColors: PreviewStatus;         // The running preview
+  confirmPreview: ColorChange[];        // Keys kept (one undoable history entry)
+  cancelPreview: ColorChange[];         // Keys reverted
+  transaction: TransactionResult;       // Per-operation results
 }
 
 /**
@@ -89,12 +460,7 @@ export function isBridgeRequest(obj: unknown): obj is BridgeRequest {
   return (
     typeof req.id === 'string' &&
     typeof req.method === 'string' &&
-    (req.method === 'getCurrentColors' ||
-     req.method === 'getColor' ||
-     req.method === 'setColor' ||
-     req.method === 'setColors' ||
-     req.method === 'resetColor' ||
-     req.method === 'resetAllColors') &&
+    BRIDGE_METHODS.includes(req.method) &&
     'params' in req
   );
 }
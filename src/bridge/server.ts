@@ -1,7 +1,18 @@
 import * as vscode from 'vscode';
 import * as http from 'http';
-import { BridgeRequest, BridgeResponse, BridgeMethod, isBridgeRequest, ConfigurationTarget } from './protocol';
+import * as crypto from 'crypto';
+import { BRIDGE_EVENTS_PATH, BRIDGE_EVENT_KEEPALIVE_MS, BRIDGE_MAX_BODY_BYTES, BRIDGE_TOKEN_HEADER, BridgeEvent, BridgeRequest, BridgeResponse, BridgeMethod, isBridgeRequest, ConfigurationTarget, ChangeOrigin, ColorScope, HistoryEntry, SnapshotLevel, ThemeSnapshot, TokenColorCustomizations, TransactionOperation, TransactionResult } from './protocol';
+import type { ColorChange } from '../mcp/types';
+import type { ColorMap } from '../colors/groups';
+import { ColorHistory, ColorValues } from './history';
 import { VSCodeConfig } from '../vscode/config';
+import { SnapshotStore } from '../vscode/snapshots';
+import { CustomMoodStore } from '../vscode/customMoods';
+import { ThemeColorResolver } from '../vscode/themeColors';
+import { ColorPreview } from '../vscode/preview';
+import { MoodPresetWatcher } from '../vscode/moodPresets';
+import { planTransaction } from './transaction';
+import { diffColorMaps } from '../colors/diff';
 
 /**
  * BridgeServer - HTTP server for extension host process
@@ -16,18 +27,93 @@ import { VSCodeConfig } from '../vscode/config';
  * Uses HTTP instead of IPC because VSCode's MCP infrastructure doesn't expose
  * child process IPC channels to extensions.
  *
+ * Every request must carry the per-session secret in the BRIDGE_TOKEN_HEADER
+ * header. Requests with a foreign Host (DNS rebinding), any Origin header (browsers),
+ * a non-JSON content type or an oversized body are rejected before they are parsed.
+ *
+ * A GET on BRIDGE_EVENTS_PATH opens a server-sent event stream of BridgeEvents:
+ * color customization changes (from any source, including hand edits of
+ * settings.json), active theme switches and edits of mood preset files.
+ *
  * Usage:
- *   const bridge = new BridgeServer();
+ *   const bridge = new BridgeServer(context, token);
  *   const port = await bridge.start();
- *   // Pass port to child via BRIDGE_PORT env var
+ *   // Pass port and token to child via BRIDGE_PORT and BRIDGE_TOKEN env vars
  */
 export class BridgeServer {
+  /**
+   * Methods that write settings or global state; these run one at a time through
+   * the write queue (the stores read, change and write back their whole value)
+   */
+  private static readonly WRITE_METHODS: ReadonlySet<BridgeMethod> = new Set<BridgeMethod>([
+    'setColor',
+    'setColors',
+    'resetColor',
+    'resetAllColors',
+    'undo',
+    'redo',
+    'saveSnapshot',
+    'restoreSnapshot',
+    'deleteSnapshot',
+    'saveCustomMood',
+    'renameCustomMood',
+    'deleteCustomMood',
+    'setTokenColors',
+    'resetTokenColors',
+    'previewColors',
+    'transaction',
+  ]);
+
   private vscodeConfig: VSCodeConfig;
+  private history: ColorHistory;
+  private snapshots: SnapshotStore;
+  private customMoods: CustomMoodStore;
+  private themeColors: ThemeColorResolver;
+  private preview: ColorPreview;
+  private moodPresets: MoodPresetWatcher;
   private server: http.Server | undefined;
   private port: number = 0;
+  private tokenDigest: Buffer;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private eventStreams = new Set<http.ServerResponse>();
 
-  constructor() {
+  /**
+   * @param context - Extension context (global state backs the snapshot and custom mood stores)
+   * @param token - Per-session secret clients must send in the BRIDGE_TOKEN_HEADER header
+   */
+  constructor(context: vscode.ExtensionContext, token: string) {
+    this.tokenDigest = crypto.createHash('sha256').update(token).digest();
     this.vscodeConfig = new VSCodeConfig();
+    this.history = new ColorHistory();
+    this.snapshots = new SnapshotStore(context.globalState);
+    this.customMoods = new CustomMoodStore(context.globalState);
+    this.themeColors = new ThemeColorResolver();
+    this.moodPresets = new MoodPresetWatcher();
+    this.preview = new ColorPreview(
+      context.globalState,
+      scope => this.configFor(scope).getStoredColors(scope.themeScope, this.mapConfigurationTarget(scope.target)),
+      (scope, values) => this.configFor(scope).applyValues(values, this.mapConfigurationTarget(scope.target), scope.themeScope),
+      () => this.cancelPreview()
+    );
+    context.subscriptions.push(
+      this.themeColors,
+      this.preview,
+      this.moodPresets,
+      this.vscodeConfig.onConfigurationChanged((_event, settings) => {
+        this.broadcast({ type: 'colorsChanged', settings, timestamp: new Date().toISOString() });
+      }),
+      this.vscodeConfig.onActiveThemeChanged(theme => {
+        this.broadcast({ type: 'themeChanged', theme, timestamp: new Date().toISOString() });
+      }),
+      this.moodPresets.onDidChange(() => {
+        this.broadcast({ type: 'moodPresetsChanged', timestamp: new Date().toISOString() });
+      })
+    );
+
+    // A preview still in settings means the last window closed before it ended
+    this.enqueueWrite(() => this.preview.recover()).catch(error => {
+      console.error('[BridgeServer] Failed to revert leftover preview:', error instanceof Error ? error.message : error);
+    });
   }
 
   /**
@@ -37,17 +123,40 @@ export class BridgeServer {
   async start(): Promise<number> {
     return new Promise((resolve, reject) => {
       this.server = http.createServer(async (req, res) => {
-        // Only accept POST requests
-        if (req.method !== 'POST') {
-          res.writeHead(405, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'Method not allowed' }));
+        // Check method, headers and token before reading anything
+        const rejection = this.checkRequest(req);
+        if (rejection) {
+          res.writeHead(rejection.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: rejection.error }));
+          req.resume();
           return;
         }
 
-        // Read request body
+        if (req.url === BRIDGE_EVENTS_PATH) {
+          this.openEventStream(res);
+          return;
+        }
+
+        // Read request body, giving up once it grows past the limit
         let body = '';
-        req.on('data', chunk => body += chunk);
+        let size = 0;
+        let tooLarge = false;
+        req.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > BRIDGE_MAX_BODY_BYTES) {
+            if (!tooLarge) {
+              tooLarge = true;
+              res.writeHead(413, { 'Content-Type': 'application/json' });
+              res.end(JSON.stringify({ error: 'Request body too large' }));
+            }
+            return;
+          }
+          body += chunk;
+        });
         req.on('end', async () => {
+          if (tooLarge) {
+            return;
+          }
           try {
             const request: BridgeRequest = JSON.parse(body);
             const response = await this.handleRequest(request);
@@ -79,10 +188,93 @@ export class BridgeServer {
     });
   }
 
+  /**
+   * Validate a request before its body is read
+   *
+   * @param req - Incoming HTTP request
+   * @returns Status and message to reject with, or undefined if the request may proceed
+   */
+  private checkRequest(req: http.IncomingMessage): { status: number; error: string } | undefined {
+    // Only accept POST requests, plus GET for the event stream
+    const isEventStream = req.url === BRIDGE_EVENTS_PATH;
+    if (req.method !== (isEventStream ? 'GET' : 'POST')) {
+      return { status: 405, error: 'Method not allowed' };
+    }
+
+    // A DNS-rebinding page reaches us under its own host name
+    const host = req.headers.host;
+    if (host !== `127.0.0.1:${this.port}` && host !== '127.0.0.1') {
+      return { status: 403, error: 'Invalid Host header' };
+    }
+
+    // Browsers always send Origin on cross-origin POSTs; the MCP client never does
+    if (req.headers.origin !== undefined) {
+      return { status: 403, error: 'Cross-origin requests are not allowed' };
+    }
+
+    const contentType = req.headers['content-type'] ?? '';
+    if (!isEventStream && !/^application\/json\s*(;|$)/i.test(contentType)) {
+      return { status: 415, error: 'Content-Type must be application/json' };
+    }
+
+    const contentLength = Number(req.headers['content-length'] ?? 0);
+    if (contentLength > BRIDGE_MAX_BODY_BYTES) {
+      return { status: 413, error: 'Request body too large' };
+    }
+
+    // Compare fixed-length digests so the comparison time does not depend on the token
+    const token = req.headers[BRIDGE_TOKEN_HEADER];
+    if (typeof token !== 'string') {
+      return { status: 401, error: 'Missing bridge token' };
+    }
+    const digest = crypto.createHash('sha256').update(token).digest();
+    if (!crypto.timingSafeEqual(digest, this.tokenDigest)) {
+      return { status: 401, error: 'Invalid bridge token' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Keep a GET response open and send it every BridgeEvent from now on
+   */
+  private openEventStream(res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    this.eventStreams.add(res);
+
+    // Comments keep idle connections from being dropped
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), BRIDGE_EVENT_KEEPALIVE_MS);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      this.eventStreams.delete(res);
+    });
+  }
+
+  /**
+   * Send an event to every open event stream
+   */
+  private broadcast(event: BridgeEvent): void {
+    const message = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const res of this.eventStreams) {
+      res.write(message);
+    }
+  }
+
   /**
    * Stop the HTTP server
    */
   async stop(): Promise<void> {
+    // Open event streams would otherwise keep close() waiting forever
+    for (const res of this.eventStreams) {
+      res.end();
+    }
+    this.eventStreams.clear();
+
     return new Promise((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -122,6 +314,327 @@ export class BridgeServer {
     }
   }
 
+  /**
+   * Settings level to read from: one level when a target is given, otherwise
+   * the merged value VS Code actually applies
+   */
+  private mapReadTarget(target?: ConfigurationTarget): vscode.ConfigurationTarget | undefined {
+    return target ? this.mapConfigurationTarget(target) : undefined;
+  }
+
+  /**
+   * Get a VSCodeConfig bound to the requested workspace folder
+   *
+   * Accepts a folder URI or an absolute path. The WorkspaceFolder target needs a
+   * folder; in a single-folder workspace it defaults to that folder.
+   *
+   * @param scope - Configuration target and optional folderUri from the request
+   * @returns Shared config when no folder is involved, otherwise a folder-bound one
+   */
+  private configFor(scope: ColorScope | undefined): VSCodeConfig {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+
+    if (scope?.folderUri) {
+      const uri = /^[a-z][a-z0-9+.-]+:/i.test(scope.folderUri)
+        ? vscode.Uri.parse(scope.folderUri)
+        : vscode.Uri.file(scope.folderUri);
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      if (!folder) {
+        const available = folders.map(f => f.uri.toString()).join(', ') || 'none';
+        throw new Error(`Not a folder in this workspace: ${scope.folderUri}. Available: ${available}`);
+      }
+      return new VSCodeConfig(folder.uri);
+    }
+
+    if (scope?.target === 'WorkspaceFolder') {
+      if (folders.length === 1) {
+        return new VSCodeConfig(folders[0].uri);
+      }
+      throw new Error(folders.length === 0
+        ? 'WorkspaceFolder target requires an open folder'
+        : `folderUri is required for the WorkspaceFolder target in a multi-root workspace. Available: ${folders.map(f => f.uri.toString()).join(', ')}`);
+    }
+
+    return this.vscodeConfig;
+  }
+
+  /**
+   * Run a mutation and record its before/after diff in the history journal
+   *
+   * Only the level being written (one settings target, and either the unscoped
+   * keys or one theme block) is diffed, so undo writes back to exactly the same place.
+   * The syntax token rules at that level are captured too, so a mutation that
+   * writes both colors and token rules is undone as a whole.
+   *
+   * @param scope - Configuration target (defaults to Global), optional theme block and folder
+   * @param origin - Tool that requested the change (defaults to the bridge method name)
+   * @param method - Bridge method performing the mutation
+   * @param mutate - Callback that writes the change via the given VSCodeConfig
+   * @returns The recorded history entry, or undefined if nothing changed
+   */
+  private async recordChange(
+    scope: ColorScope | undefined,
+    origin: ChangeOrigin | undefined,
+    method: BridgeMethod,
+    mutate: (config: VSCodeConfig, target: vscode.ConfigurationTarget) => Promise<void>
+  ): Promise<HistoryEntry | undefined> {
+    const config = this.configFor(scope);
+    const target = this.mapConfigurationTarget(scope?.target);
+    const before = await config.getStoredColors(scope?.themeScope, target);
+    const tokensBefore = await config.getStoredTokenColors(scope?.themeScope, target);
+    await mutate(config, target);
+    const after = await config.getStoredColors(scope?.themeScope, target);
+    const tokensAfter = await config.getStoredTokenColors(scope?.themeScope, target);
+    return this.history.record(scope?.target ?? 'Global', origin ?? { tool: method }, before, after, {
+      themeScope: scope?.themeScope,
+      folderUri: scope?.target === 'WorkspaceFolder' ? config.resource?.toString() : undefined,
+    }, { before: tokensBefore, after: tokensAfter });
+  }
+
+  /**
+   * Write one side of a history entry back to the level it was recorded at
+   *
+   * @param values Color values to write (undefined removes the key)
+   * @param tokenColors Syntax token rules to restore, if the entry changed them
+   */
+  private async writeBack(
+    entry: HistoryEntry,
+    target: vscode.ConfigurationTarget,
+    values: ColorValues,
+    tokenColors?: TokenColorCustomizations
+  ): Promise<void> {
+    const config = this.configFor(entry);
+    this.assertNotPreviewed(entry, Object.keys(values));
+    if (Object.keys(values).length > 0) {
+      await config.applyValues(values, target, entry.themeScope);
+    }
+    if (tokenColors) {
+      await config.replaceTokenColors(tokenColors, target, entry.themeScope);
+    }
+  }
+
+  /**
+   * Read the colors stored at every level a snapshot covers
+   *
+   * Without a target, User and Workspace settings are read, plus the folder's own
+   * settings when the config is bound to one. Without a theme scope, each level's
+   * unscoped keys are read along with every theme block it holds.
+   */
+  private async captureLevels(config: VSCodeConfig, scope: ColorScope): Promise<SnapshotLevel[]> {
+    const targets: ConfigurationTarget[] = scope.target
+      ? [scope.target]
+      : ['Global', 'Workspace', ...(config.resource ? ['WorkspaceFolder' as const] : [])];
+
+    const levels: SnapshotLevel[] = [];
+    for (const target of targets) {
+      const level = this.mapConfigurationTarget(target);
+      const themeScopes = scope.themeScope
+        ? [scope.themeScope]
+        : [undefined, ...config.listThemeScopes(level).map(info => info.scope)];
+      for (const themeScope of themeScopes) {
+        levels.push({ target, themeScope, colors: await config.getStoredColors(themeScope, level) });
+      }
+    }
+    return levels;
+  }
+
+  /**
+   * Levels a snapshot restore has to write, each with the folder it belongs to
+   *
+   * Saved levels are narrowed to the requested target and theme scope. A level
+   * saved whole also gets its theme blocks added since cleared. Snapshots saved
+   * before levels were tracked go into the requested level as before. Levels that
+   * already hold the saved colors are left out, so untouched settings are not written.
+   */
+  private async levelsToRestore(
+    snapshot: ThemeSnapshot,
+    scope: ColorScope
+  ): Promise<Array<SnapshotLevel & Pick<ColorScope, 'folderUri'>>> {
+    const folderUri = (level: SnapshotLevel) =>
+      level.target === 'WorkspaceFolder' ? scope.folderUri ?? snapshot.folderUri : scope.folderUri;
+
+    const levels = (snapshot.levels ?? [{ target: scope.target ?? 'Global', themeScope: scope.themeScope, colors: snapshot.colors }])
+      .filter(level => (!scope.target || level.target === scope.target) && (!scope.themeScope || level.themeScope === scope.themeScope))
+      .map(level => ({ ...level, folderUri: folderUri(level) }));
+
+    if (snapshot.levels) {
+      for (const whole of levels.filter(level => !level.themeScope)) {
+        for (const info of this.configFor(whole).listThemeScopes(this.mapConfigurationTarget(whole.target))) {
+          if (!levels.some(level => level.target === whole.target && level.themeScope === info.scope)) {
+            levels.push({ target: whole.target, themeScope: info.scope, colors: {}, folderUri: whole.folderUri });
+          }
+        }
+      }
+    }
+
+    const pending: typeof levels = [];
+    for (const level of levels) {
+      const stored = await this.configFor(level).getStoredColors(level.themeScope, this.mapConfigurationTarget(level.target));
+      if (diffColorMaps(stored, level.colors, '').length > 0) {
+        pending.push(level);
+      }
+    }
+    return pending;
+  }
+
+  /**
+   * Refuse a write that touches colors a running preview will restore
+   *
+   * Otherwise reverting the preview (or its countdown running out) would put
+   * the old values back over the write without the history knowing.
+   *
+   * @param keys Keys the write touches (default: every key at the scope's level)
+   * @throws Error naming the previewed keys and how to end the preview
+   */
+  private assertNotPreviewed(scope: ColorScope | undefined, keys?: string[]): void {
+    const previewed = this.preview.keysAt(scope ?? {});
+    const blocked = keys ? keys.filter(key => previewed.includes(key)) : previewed;
+    if (blocked.length > 0) {
+      throw new Error(`Being previewed: ${blocked.join(', ')}. Keep or revert the preview (confirmPreview or cancelPreview) before changing these colors`);
+    }
+  }
+
+  /**
+   * Keep the previewed colors, recording them as one undoable change
+   *
+   * Also used by the "Keep Color Preview" command.
+   *
+   * @returns Keys that changed relative to before the preview
+   * @throws Error if no preview is running
+   */
+  async confirmPreview(): Promise<ColorChange[]> {
+    return this.enqueueWrite(() => this.keepPreview());
+  }
+
+  /**
+   * Revert the previewed colors now
+   *
+   * Also used by the "Revert Color Preview" command, on timeout and on deactivation.
+   *
+   * @returns Keys that were reverted (empty if no preview was running)
+   */
+  async cancelPreview(): Promise<ColorChange[]> {
+    return this.enqueueWrite(() => this.revertPreview());
+  }
+
+  /**
+   * Run a write after every write queued before it has finished
+   *
+   * VSCodeConfig writes are read-modify-write of the whole setting, so two
+   * overlapping writes would lose each other's keys.
+   */
+  private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(task, task);
+    // Keep the queue alive after failures; callers still see the rejection
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async keepPreview(): Promise<ColorChange[]> {
+    const session = await this.preview.confirm();
+    if (!session) {
+      throw new Error('No color preview is running');
+    }
+
+    const after = await this.configFor(session).getStoredColors(
+      session.themeScope,
+      this.mapConfigurationTarget(session.target)
+    );
+    const before: ColorMap = { ...after };
+    for (const [key, value] of Object.entries(session.before)) {
+      if (value === undefined) {
+        delete before[key];
+      } else {
+        before[key] = value;
+      }
+    }
+
+    const entry = this.history.record(session.target ?? 'Global', session.origin, before, after, {
+      themeScope: session.themeScope,
+      folderUri: session.folderUri,
+    });
+    return entry?.changes ?? [];
+  }
+
+  private async revertPreview(): Promise<ColorChange[]> {
+    const session = await this.preview.cancel();
+    if (!session) {
+      return [];
+    }
+
+    const restored: ColorMap = {};
+    for (const [key, value] of Object.entries(session.before)) {
+      if (value !== undefined) {
+        restored[key] = value;
+      }
+    }
+    return diffColorMaps(session.colors, restored, 'cancelPreview');
+  }
+
+  /**
+   * Apply an ordered list of operations all-or-nothing
+   *
+   * Operations are first played against an in-memory copy of the stored colors.
+   * If any precondition fails nothing is written; otherwise colors are written in
+   * one update (and token rules in one update per setting), recorded as one
+   * history entry holding both. If a token write fails, colors and token rules
+   * are put back. Must run inside the write queue.
+   */
+  private async runTransaction(
+    operations: TransactionOperation[],
+    scope: ColorScope,
+    origin: ChangeOrigin
+  ): Promise<TransactionResult> {
+    const config = this.configFor(scope);
+    const target = this.mapConfigurationTarget(scope.target);
+    const stored = await config.getStoredColors(scope.themeScope, target);
+    const storedTokens = await config.getStoredTokenColors(scope.themeScope, target);
+    const plan = planTransaction(stored, operations);
+
+    if (!plan.ok) {
+      return { committed: false, results: plan.results, changes: [], tokenColorsChanged: false };
+    }
+    this.assertNotPreviewed(
+      scope,
+      operations.some(operation => operation.op === 'resetAll')
+        ? undefined
+        : operations.flatMap(operation => (operation.op === 'set' || operation.op === 'reset' ? [operation.key] : []))
+    );
+
+    const entry = await this.recordChange(scope, origin, 'transaction', async () => {
+      await config.replaceColors(plan.colors, target, scope.themeScope);
+      if (plan.tokenColors.textMateRules || plan.tokenColors.semanticTokenRules) {
+        try {
+          await config.setTokenColors(plan.tokenColors, target, scope.themeScope);
+        } catch (error) {
+          // Put colors and token rules back so the transaction leaves no trace
+          await config.replaceColors(stored, target, scope.themeScope);
+          await config.replaceTokenColors(storedTokens, target, scope.themeScope);
+          throw error;
+        }
+      }
+    });
+
+    return {
+      committed: true,
+      results: plan.results,
+      changes: entry?.changes ?? [],
+      tokenColorsChanged: entry?.tokenColors !== undefined,
+    };
+  }
+
+  /**
+   * Look up a snapshot by name or throw a helpful error
+   */
+  private requireSnapshot(name: string): ThemeSnapshot {
+    const snapshot = this.snapshots.get(name);
+    if (!snapshot) {
+      const available = this.snapshots.list().map(s => s.name).join(', ') || 'none';
+      throw new Error(`Unknown snapshot: ${name}. Available: ${available}`);
+    }
+    return snapshot;
+  }
+
   /**
    * Handle incoming IPC request from child process
    *
@@ -134,7 +647,9 @@ export class BridgeServer {
   async handleRequest(request: BridgeRequest): Promise<BridgeResponse> {
     try {
       // Call the method and get the result
-      const result = await this.callMethod(request.method, request.params);
+      const result = BridgeServer.WRITE_METHODS.has(request.method)
+        ? await this.enqueueWrite(() => this.callMethod(request.method, request.params))
+        : await this.callMethod(request.method, request.params);
 
       // Return successful response with proper type
       return {
@@ -167,26 +682,33 @@ export class BridgeServer {
   private async callMethod(method: BridgeMethod, params: any): Promise<any> {
     switch (method) {
       case 'getCurrentColors':
-        // No parameters needed - just get all colors
-        // (target parameter ignored for getCurrentColors as it only reads)
-        return await this.vscodeConfig.getCurrentColors();
+        // Colors for the theme scope (default: active theme), blocks flattened
+        // (only the target's level when given, otherwise the merged value)
+        return await this.configFor(params).getCurrentColors(params?.themeScope, this.mapReadTarget(params?.target));
 
       case 'getColor':
         // Validate required parameter: key
         if (!params?.key) {
           throw new Error('Missing required parameter: key');
         }
-        // (target parameter ignored for getColor as it only reads)
-        return await this.vscodeConfig.getColor(params.key);
+        return await this.configFor(params).getColor(params.key, params.themeScope, this.mapReadTarget(params.target));
+
+      case 'inspectColor':
+        // Validate required parameter: key
+        if (!params?.key) {
+          throw new Error('Missing required parameter: key');
+        }
+        return this.configFor(params).inspectColor(params.key, params.themeScope);
 
       case 'setColor':
         // Validate required parameters: key and value
         if (!params?.key || !params?.value) {
           throw new Error('Missing required parameters: key, value');
         }
-        // Map target string to VSCode ConfigurationTarget enum
-        const setColorTarget = this.mapConfigurationTarget(params.target);
-        await this.vscodeConfig.setColor(params.key, params.value, setColorTarget);
+        this.assertNotPreviewed(params, [params.key]);
+        await this.recordChange(params, params.origin, method, (config, target) =>
+          config.setColor(params.key, params.value, target, params.themeScope)
+        );
         return { success: true };
 
       case 'setColors':
@@ -194,9 +716,10 @@ export class BridgeServer {
         if (!params?.colors) {
           throw new Error('Missing required parameter: colors');
         }
-        // Map target string to VSCode ConfigurationTarget enum
-        const setColorsTarget = this.mapConfigurationTarget(params.target);
-        await this.vscodeConfig.setColors(params.colors, setColorsTarget);
+        this.assertNotPreviewed(params, Object.keys(params.colors));
+        await this.recordChange(params, params.origin, method, (config, target) =>
+          config.setColors(params.colors, target, params.themeScope)
+        );
         return { success: true };
 
       case 'resetColor':
@@ -204,18 +727,215 @@ export class BridgeServer {
         if (!params?.key) {
           throw new Error('Missing required parameter: key');
         }
-        // Map target string to VSCode ConfigurationTarget enum
-        const resetColorTarget = this.mapConfigurationTarget(params.target);
-        await this.vscodeConfig.resetColor(params.key, resetColorTarget);
+        this.assertNotPreviewed(params, [params.key]);
+        await this.recordChange(params, params.origin, method, (config, target) =>
+          config.resetColor(params.key, target, params.themeScope)
+        );
         return { success: true };
 
       case 'resetAllColors':
-        // No parameters needed - reset everything
-        // Map target string to VSCode ConfigurationTarget enum
-        const resetAllTarget = this.mapConfigurationTarget(params?.target);
-        await this.vscodeConfig.resetAllColors(resetAllTarget);
+        // No parameters needed - reset everything at this level
+        this.assertNotPreviewed(params);
+        await this.recordChange(params, params?.origin, method, (config, target) =>
+          config.resetAllColors(target, params?.themeScope)
+        );
+        return { success: true };
+
+      case 'undo': {
+        // Write back the "before" values of the newest entry (not recorded as a new change)
+        const undoTarget = this.mapConfigurationTarget(params?.target);
+        const entry = await this.history.undo(params?.target ?? 'Global', (values, undone, tokenColors) =>
+          this.writeBack(undone, undoTarget, values, tokenColors)
+        );
+        return entry ?? null;
+      }
+
+      case 'redo': {
+        // Write back the "after" values of the newest undone entry
+        const redoTarget = this.mapConfigurationTarget(params?.target);
+        const entry = await this.history.redo(params?.target ?? 'Global', (values, redone, tokenColors) =>
+          this.writeBack(redone, redoTarget, values, tokenColors)
+        );
+        return entry ?? null;
+      }
+
+      case 'listHistory':
+        return this.history.list(params?.target ?? 'Global', params?.limit);
+
+      case 'saveSnapshot': {
+        // Validate required parameter: name
+        if (!params?.name) {
+          throw new Error('Missing required parameter: name');
+        }
+        const config = this.configFor(params);
+        const levels = await this.captureLevels(config, params);
+        const saved = await this.snapshots.save(params.name, {
+          colors: await config.getCurrentColors(params.themeScope, this.mapReadTarget(params.target)),
+          levels,
+          folderUri: levels.some(level => level.target === 'WorkspaceFolder') ? config.resource?.toString() : undefined,
+        }, params.description, params.overwrite);
+        this.broadcast({ type: 'snapshotsChanged', name: saved.name, timestamp: saved.createdAt });
+        return saved;
+      }
+
+      case 'listSnapshots':
+        return this.snapshots.list();
+
+      case 'getSnapshot':
+        // Validate required parameter: name
+        if (!params?.name) {
+          throw new Error('Missing required parameter: name');
+        }
+        return this.requireSnapshot(params.name);
+
+      case 'restoreSnapshot': {
+        // Validate required parameter: name
+        if (!params?.name) {
+          throw new Error('Missing required parameter: name');
+        }
+        const snapshot = this.requireSnapshot(params.name);
+        const levels = await this.levelsToRestore(snapshot, params);
+        levels.forEach(level => this.assertNotPreviewed(level));
+        // Recorded like any other change (one entry per level), so a restore can itself be undone
+        const changes: ColorChange[] = [];
+        for (const level of levels) {
+          const entry = await this.recordChange(
+            level,
+            params.origin ?? { tool: method, detail: snapshot.name },
+            method,
+            (config, target) => config.replaceColors(level.colors, target, level.themeScope)
+          );
+          changes.push(...(entry?.changes ?? []));
+        }
+        return changes;
+      }
+
+      case 'deleteSnapshot':
+        // Validate required parameter: name
+        if (!params?.name) {
+          throw new Error('Missing required parameter: name');
+        }
+        if (!await this.snapshots.delete(params.name)) {
+          return false;
+        }
+        this.broadcast({ type: 'snapshotsChanged', name: params.name, timestamp: new Date().toISOString() });
+        return true;
+
+      case 'diffSnapshots': {
+        // Validate required parameter: from
+        if (!params?.from) {
+          throw new Error('Missing required parameter: from');
+        }
+        const from = this.requireSnapshot(params.from);
+        const toColors = params.to
+          ? this.requireSnapshot(params.to).colors
+          : await this.configFor(params).getCurrentColors(params.themeScope, this.mapReadTarget(params.target));
+        const toLabel = params.to ? `"${params.to}"` : 'current colors';
+        return diffColorMaps(from.colors, toColors, `"${from.name}" → ${toLabel}`);
+      }
+
+      case 'getActiveTheme':
+        return this.vscodeConfig.getActiveThemeInfo();
+
+      case 'getEffectiveColors':
+        // Customizations → theme file (with includes) → VS Code defaults for the theme kind
+        return await this.themeColors.resolve(this.configFor(params), params?.themeScope, params?.keys);
+
+      case 'getAccessibilityPolicy':
+        return this.configFor(params).getAccessibilityPolicy();
+
+      case 'getTokenColors':
+        // (only the target's level when given, otherwise the merged value)
+        return await this.configFor(params).getTokenColors(params?.themeScope, this.mapReadTarget(params?.target));
+
+      case 'setTokenColors':
+        // Validate that there is at least one kind of rule to write
+        if (!params?.textMateRules && !params?.semanticTokenRules) {
+          throw new Error('Missing required parameter: textMateRules or semanticTokenRules');
+        }
+        await this.recordChange(params, params.origin, method, (config, target) =>
+          config.setTokenColors(
+            { textMateRules: params.textMateRules, semanticTokenRules: params.semanticTokenRules },
+            target,
+            params.themeScope
+          )
+        );
         return { success: true };
 
+      case 'resetTokenColors':
+        await this.recordChange(params, params?.origin, method, (config, target) =>
+          config.resetTokenColors(target, params?.themeScope)
+        );
+        return { success: true };
+
+      case 'listThemeScopes':
+        return this.configFor(params).listThemeScopes(this.mapReadTarget(params?.target));
+
+      case 'getMoodPresets':
+        // Read on every call, so a directory created after startup is picked up too
+        return await this.moodPresets.load();
+
+      case 'listCustomMoods':
+        return this.customMoods.list();
+
+      case 'saveCustomMood': {
+        // Validate required parameters: name and preset
+        if (!params?.name || !params?.preset) {
+          throw new Error('Missing required parameters: name and preset');
+        }
+        const saved = await this.customMoods.save(params);
+        this.broadcast({ type: 'customMoodsChanged', name: saved.name, timestamp: saved.updatedAt });
+        return saved;
+      }
+
+      case 'renameCustomMood': {
+        // Validate required parameters: name and newName
+        if (!params?.name || !params?.newName) {
+          throw new Error('Missing required parameters: name and newName');
+        }
+        const renamed = await this.customMoods.rename(params.name, params.newName);
+        this.broadcast({ type: 'customMoodsChanged', name: params.name, timestamp: renamed.updatedAt });
+        this.broadcast({ type: 'customMoodsChanged', name: renamed.name, timestamp: renamed.updatedAt });
+        return renamed;
+      }
+
+      case 'deleteCustomMood':
+        // Validate required parameter: name
+        if (!params?.name) {
+          throw new Error('Missing required parameter: name');
+        }
+        if (!await this.customMoods.delete(params.name)) {
+          return false;
+        }
+        this.broadcast({ type: 'customMoodsChanged', name: params.name, timestamp: new Date().toISOString() });
+        return true;
+
+      case 'previewColors':
+        // Validate required parameter: colors object
+        if (!params?.colors) {
+          throw new Error('Missing required parameter: colors');
+        }
+        // Not recorded in history until confirmed
+        return await this.preview.start(
+          params.colors,
+          { target: params.target, themeScope: params.themeScope, folderUri: params.folderUri },
+          params.origin ?? { tool: method },
+          params.durationSeconds
+        );
+
+      case 'confirmPreview':
+        return await this.confirmPreview();
+
+      case 'cancelPreview':
+        return await this.cancelPreview();
+
+      case 'transaction':
+        // Validate required parameter: operations array
+        if (!Array.isArray(params?.operations) || params.operations.length === 0) {
+          throw new Error('Missing required parameter: operations');
+        }
+        return await this.runTransaction(params.operations, params, params.origin ?? { tool: method });
+
       default:
         // This should never happen thanks to TypeScript types, but just in case
         throw new Error(`Unknown bridge method: ${method}`);
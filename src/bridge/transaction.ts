@@ -0,0 +1,131 @@
+import type { ColorMap } from '../colors/groups';
+import type { SemanticTokenRules, TokenColorRule } from '../themes/MoodPresets';
+import type { TokenColorCustomizations, TransactionOperation, TransactionOperationResult } from './protocol';
+
+/**
+ * Outcome of planning a transaction against the stored colors
+ */
+export interface TransactionPlan {
+  ok: boolean;                                     // False if any operation failed (nothing may be written)
+  colors: ColorMap;                                // Stored colors after every operation
+  tokenColors: Partial<TokenColorCustomizations>;  // Token rules to merge (empty if none)
+  results: TransactionOperationResult[];
+}
+
+/**
+ * Check an operation's precondition against the value it would replace
+ * (null means the key must be unset; hex values compare case-insensitively)
+ */
+function preconditionHolds(expected: string | null | undefined, actual: string | undefined): boolean {
+  if (expected === undefined) {
+    return true;
+  }
+  if (expected === null) {
+    return actual === undefined;
+  }
+  return actual !== undefined && actual.toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * Apply transaction operations to a copy of the stored colors, in order
+ *
+ * Nothing is written here: the caller writes `colors` and `tokenColors` only when
+ * `ok` is true. Each operation sees the effect of the ones before it; after the
+ * first failed operation, earlier ones are marked rolledBack and later ones skipped.
+ *
+ * @param stored Colors currently stored at the level being written
+ * @param operations Ordered operations
+ */
+export function planTransaction(stored: ColorMap, operations: TransactionOperation[]): TransactionPlan {
+  const colors: ColorMap = { ...stored };
+  const textMateRules = new Map<string, TokenColorRule>();
+  const semanticTokenRules: SemanticTokenRules = {};
+  const results: TransactionOperationResult[] = [];
+  let failed = false;
+
+  operations.forEach((operation, index) => {
+    const result: TransactionOperationResult = { index, op: operation.op, status: 'applied' };
+    results.push(result);
+
+    if (failed) {
+      result.status = 'skipped';
+      return;
+    }
+
+    switch (operation.op) {
+      case 'set':
+      case 'reset': {
+        result.key = operation.key;
+        result.previousValue = colors[operation.key];
+        if (!operation.key) {
+          result.status = 'failed';
+          result.error = 'Missing key';
+        } else if (!preconditionHolds(operation.expected, colors[operation.key])) {
+          result.status = 'failed';
+          result.error = `Expected ${operation.expected ?? 'no value'}, found ${colors[operation.key] ?? 'no value'}`;
+        } else if (operation.op === 'set') {
+          if (!operation.value) {
+            result.status = 'failed';
+            result.error = 'Missing value';
+          } else {
+            colors[operation.key] = operation.value;
+          }
+        } else {
+          delete colors[operation.key];
+        }
+        break;
+      }
+
+      case 'resetAll':
+        for (const key of Object.keys(colors)) {
+          delete colors[key];
+        }
+        break;
+
+      case 'setTokenColor': {
+        result.key = operation.scope;
+        if (!operation.scope || (operation.foreground === undefined && operation.fontStyle === undefined)) {
+          result.status = 'failed';
+          result.error = 'setTokenColor needs a scope and a foreground or fontStyle';
+          break;
+        }
+        const settings = {
+          ...(operation.foreground !== undefined ? { foreground: operation.foreground } : {}),
+          ...(operation.fontStyle !== undefined ? { fontStyle: operation.fontStyle } : {}),
+        };
+        if (operation.semantic) {
+          semanticTokenRules[operation.scope] = settings;
+        } else {
+          const scopes = operation.scope.split(',').map(s => s.trim()).filter(s => s.length > 0);
+          textMateRules.set(scopes.join(','), { scope: scopes.length === 1 ? scopes[0] : scopes, settings });
+        }
+        break;
+      }
+
+      default:
+        result.status = 'failed';
+        result.error = `Unknown operation: ${(operation as { op: string }).op}`;
+    }
+
+    failed = result.status === 'failed';
+  });
+
+  // Nothing gets written, so operations before the failure are reported as undone
+  if (failed) {
+    for (const result of results) {
+      if (result.status === 'applied') {
+        result.status = 'rolledBack';
+      }
+    }
+  }
+
+  const tokenColors: Partial<TokenColorCustomizations> = {};
+  if (textMateRules.size > 0) {
+    tokenColors.textMateRules = [...textMateRules.values()];
+  }
+  if (Object.keys(semanticTokenRules).length > 0) {
+    tokenColors.semanticTokenRules = semanticTokenRules;
+  }
+
+  return { ok: !failed, colors, tokenColors, results };
+}
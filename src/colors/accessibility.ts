@@ -0,0 +1,348 @@
+import type { ColorMap } from './groups';
+import type { ThemeChange } from '../mcp/types';
+import { APCA_THRESHOLDS, ApcaUsage, ColorManipulator, ContrastAlgorithm } from './manipulation';
+import { AdvancedColorOps } from './advanced';
+
+/**
+ * A foreground key and the background key it is drawn on
+ */
+export interface ContrastPair {
+  foreground: string;
+  background: string;
+  base?: string;                       // What a translucent background is drawn on (e.g., selection over editor)
+  kind: 'text' | 'nonText';            // Text needs 4.5:1 (AA); icons, cursors and borders need 3:1
+  usage?: ApcaUsage;                   // APCA usage (default: uiLabel for text, nonText otherwise)
+  description: string;
+}
+
+/**
+ * Conformance level to check or fix against, or a custom minimum for text
+ * (a ratio with WCAG 2, an Lc with APCA)
+ */
+export type WcagLevel = 'AA' | 'AAA';
+export type ContrastTarget = WcagLevel | number;
+
+/**
+ * What write tools do when a change would drop a pair below the minimum
+ * (from the 8b-theme-mcp.accessibility.* settings)
+ */
+export interface AccessibilityPolicy {
+  minimumContrast: number;             // Minimum ratio for text (non-text elements need at most 3:1)
+  mode: 'warn' | 'block' | 'autoFix';  // Write and report / refuse the write / adjust foregrounds first
+}
+
+export const DEFAULT_ACCESSIBILITY_POLICY: AccessibilityPolicy = { minimumContrast: 4.5, mode: 'warn' };
+
+/**
+ * Outcome of checking a write against the policy
+ */
+export interface PolicyCheck {
+  colors: ColorMap;                    // What to write: the proposed colors, plus fixes in autoFix mode
+  blocked: boolean;                    // True in block mode when a pair fails (write nothing)
+  fixes: ColorMap;                     // Foregrounds adjusted in autoFix mode (empty otherwise)
+  accessibility: NonNullable<ThemeChange['accessibility']>;
+}
+
+/**
+ * Grade of one pair: the highest level it meets
+ * ("AA Large" = 3:1, enough for large text only)
+ */
+export type ContrastGrade = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+/**
+ * Outcome of checking one pair
+ */
+export interface ContrastCheck extends ContrastPair {
+  foregroundValue: string;             // Effective foreground (before compositing)
+  backgroundValue: string;             // Effective background (before compositing)
+  ratio: number;                       // Contrast after alpha compositing, rounded to 2 decimals (WCAG 2 ratio, or |Lc| with APCA)
+  required: number;                    // Contrast needed at the audited level, on the same scale
+  lc?: number;                         // Signed APCA Lc (negative = light text on dark); APCA audits only
+  grade: ContrastGrade;
+  passes: boolean;                     // True if ratio >= required
+}
+
+/**
+ * Result of auditing a set of colors
+ */
+export interface ContrastReport {
+  level: ContrastTarget;
+  algorithm: ContrastAlgorithm;
+  grade: WcagLevel | 'Fail';           // Highest level every checked pair meets
+  checked: ContrastCheck[];
+  failures: ContrastCheck[];           // Checked pairs below the required ratio, worst first
+  skipped: { foreground: string; background: string; missing: string[] }[];  // Pairs with unknown colors
+}
+
+/**
+ * Foreground/background pairings VS Code actually draws
+ *
+ * Only pairs where the foreground sits directly on the background are listed;
+ * translucent backgrounds name the surface beneath them as `base`. Editor and
+ * terminal text is read continuously, so APCA holds it to the body text level.
+ */
+export const CONTRAST_PAIRS: ContrastPair[] = [
+  // Editor
+  { foreground: 'editor.foreground', background: 'editor.background', kind: 'text', usage: 'bodyText', description: 'Editor text' },
+  { foreground: 'editor.foreground', background: 'editor.selectionBackground', base: 'editor.background', kind: 'text', usage: 'bodyText', description: 'Selected editor text' },
+  { foreground: 'editor.foreground', background: 'editor.lineHighlightBackground', base: 'editor.background', kind: 'text', usage: 'bodyText', description: 'Text on the current line' },
+  { foreground: 'editorLineNumber.foreground', background: 'editor.background', kind: 'text', description: 'Line numbers' },
+  { foreground: 'editorLineNumber.activeForeground', background: 'editor.background', kind: 'text', description: 'Current line number' },
+  { foreground: 'editorCursor.foreground', background: 'editor.background', kind: 'nonText', description: 'Cursor' },
+  { foreground: 'editorError.foreground', background: 'editor.background', kind: 'nonText', description: 'Error squiggles' },
+  { foreground: 'editorWarning.foreground', background: 'editor.background', kind: 'nonText', description: 'Warning squiggles' },
+  { foreground: 'textLink.foreground', background: 'editor.background', kind: 'text', description: 'Links' },
+  { foreground: 'editorWidget.foreground', background: 'editorWidget.background', kind: 'text', description: 'Find/replace and other editor widgets' },
+  { foreground: 'editorSuggestWidget.foreground', background: 'editorSuggestWidget.background', kind: 'text', description: 'Suggestions' },
+
+  // Workbench chrome
+  { foreground: 'titleBar.activeForeground', background: 'titleBar.activeBackground', kind: 'text', description: 'Title bar' },
+  { foreground: 'activityBar.foreground', background: 'activityBar.background', kind: 'nonText', description: 'Activity bar icons' },
+  { foreground: 'activityBarBadge.foreground', background: 'activityBarBadge.background', kind: 'text', description: 'Activity bar badges' },
+  { foreground: 'sideBar.foreground', background: 'sideBar.background', kind: 'text', description: 'Sidebar text' },
+  { foreground: 'sideBarTitle.foreground', background: 'sideBar.background', kind: 'text', description: 'Sidebar title' },
+  { foreground: 'sideBarSectionHeader.foreground', background: 'sideBarSectionHeader.background', base: 'sideBar.background', kind: 'text', description: 'Sidebar section headers' },
+  { foreground: 'list.activeSelectionForeground', background: 'list.activeSelectionBackground', base: 'sideBar.background', kind: 'text', description: 'Selected list item' },
+  { foreground: 'list.hoverForeground', background: 'list.hoverBackground', base: 'sideBar.background', kind: 'text', description: 'Hovered list item' },
+  { foreground: 'tab.activeForeground', background: 'tab.activeBackground', kind: 'text', description: 'Active tab' },
+  { foreground: 'tab.inactiveForeground', background: 'tab.inactiveBackground', kind: 'text', description: 'Inactive tabs' },
+  { foreground: 'panelTitle.activeForeground', background: 'panel.background', kind: 'text', description: 'Panel title' },
+  { foreground: 'statusBar.foreground', background: 'statusBar.background', kind: 'text', description: 'Status bar' },
+  { foreground: 'statusBar.debuggingForeground', background: 'statusBar.debuggingBackground', kind: 'text', description: 'Status bar while debugging' },
+  { foreground: 'focusBorder', background: 'editor.background', kind: 'nonText', description: 'Focus outline' },
+
+  // Controls
+  { foreground: 'button.foreground', background: 'button.background', kind: 'text', description: 'Buttons' },
+  { foreground: 'input.foreground', background: 'input.background', kind: 'text', description: 'Input text' },
+  { foreground: 'input.placeholderForeground', background: 'input.background', kind: 'text', description: 'Input placeholders' },
+  { foreground: 'dropdown.foreground', background: 'dropdown.background', kind: 'text', description: 'Dropdowns' },
+  { foreground: 'badge.foreground', background: 'badge.background', kind: 'text', description: 'Badges' },
+
+  // Notifications and chat
+  { foreground: 'notifications.foreground', background: 'notifications.background', kind: 'text', description: 'Notifications' },
+  { foreground: 'notificationLink.foreground', background: 'notifications.background', kind: 'text', description: 'Notification links' },
+  { foreground: 'chat.slashCommandForeground', background: 'chat.slashCommandBackground', base: 'sideBar.background', kind: 'text', description: 'Chat slash commands' },
+
+  // Git decorations in the explorer
+  { foreground: 'gitDecoration.modifiedResourceForeground', background: 'sideBar.background', kind: 'text', description: 'Modified files' },
+  { foreground: 'gitDecoration.untrackedResourceForeground', background: 'sideBar.background', kind: 'text', description: 'Untracked files' },
+  { foreground: 'gitDecoration.deletedResourceForeground', background: 'sideBar.background', kind: 'text', description: 'Deleted files' },
+  { foreground: 'gitDecoration.conflictingResourceForeground', background: 'sideBar.background', kind: 'text', description: 'Conflicting files' },
+
+  // Terminal
+  { foreground: 'terminal.foreground', background: 'terminal.background', kind: 'text', usage: 'bodyText', description: 'Terminal text' },
+  ...['Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White'].flatMap((name): ContrastPair[] => [
+    { foreground: `terminal.ansi${name}`, background: 'terminal.background', kind: 'text', description: `Terminal ${name.toLowerCase()}` },
+    { foreground: `terminal.ansiBright${name}`, background: 'terminal.background', kind: 'text', description: `Terminal bright ${name.toLowerCase()}` },
+  ]),
+];
+
+/**
+ * Contrast needed for a kind of pair at a level
+ * (WCAG 1.4.3/1.4.6 for text, 1.4.11 for non-text, which has no AAA level;
+ * a custom minimum below 3 applies to non-text too)
+ */
+export function requiredRatio(kind: ContrastPair['kind'], level: ContrastTarget): number {
+  if (typeof level === 'number') {
+    return kind === 'nonText' ? Math.min(3, level) : level;
+  }
+  if (kind === 'nonText') {
+    return 3;
+  }
+  return level === 'AAA' ? 7 : 4.5;
+}
+
+/**
+ * APCA Lc needed for a pair at a level
+ * (AA = the minimum for the pair's usage, AAA = the preferred level, 15 higher;
+ * a custom minimum applies to text and caps what non-text needs)
+ */
+export function requiredLc(pair: ContrastPair, level: ContrastTarget): number {
+  const usage = pair.usage ?? (pair.kind === 'nonText' ? 'nonText' : 'uiLabel');
+  if (typeof level === 'number') {
+    return pair.kind === 'nonText' ? Math.min(APCA_THRESHOLDS.nonText, level) : level;
+  }
+  return APCA_THRESHOLDS[usage] + (level === 'AAA' ? 15 : 0);
+}
+
+/**
+ * Contrast needed for a pair at a level, on the algorithm's scale
+ */
+export function requiredContrast(pair: ContrastPair, level: ContrastTarget, algorithm: ContrastAlgorithm = 'wcag2'): number {
+  return algorithm === 'apca' ? requiredLc(pair, level) : requiredRatio(pair.kind, level);
+}
+
+/**
+ * Pairs that involve any of the given keys (as foreground, background or base)
+ */
+export function pairsInvolving(keys: string[], pairs: ContrastPair[] = CONTRAST_PAIRS): ContrastPair[] {
+  const changed = new Set(keys);
+  return pairs.filter(pair =>
+    changed.has(pair.foreground) || changed.has(pair.background) || (pair.base !== undefined && changed.has(pair.base))
+  );
+}
+
+/**
+ * Every key a set of pairs reads (to fetch effective colors for)
+ */
+export function keysOfPairs(pairs: ContrastPair[]): string[] {
+  return [...new Set(pairs.flatMap(pair => [pair.foreground, pair.background, ...(pair.base ? [pair.base] : [])]))];
+}
+
+function gradeOf(ratio: number, pair: ContrastPair, algorithm: ContrastAlgorithm): ContrastGrade {
+  const required = (level: WcagLevel) => requiredContrast(pair, level, algorithm);
+  if (pair.kind === 'nonText') {
+    return ratio >= required('AA') ? 'AA' : 'Fail';
+  }
+  if (ratio >= required('AAA')) {
+    return 'AAA';
+  }
+  if (ratio >= required('AA')) {
+    return 'AA';
+  }
+  return ratio >= (algorithm === 'apca' ? APCA_THRESHOLDS.largeText : 3) ? 'AA Large' : 'Fail';
+}
+
+/**
+ * Flatten a pair to the opaque colors the user sees: the background over its
+ * base, then the foreground over that
+ */
+function compositePair(pair: ContrastPair, colors: ColorMap): { foreground: string; background: string } {
+  const manipulator = new ColorManipulator();
+  const background = manipulator.composite(colors[pair.background], (pair.base && colors[pair.base]) || '#000000');
+  return { foreground: manipulator.composite(colors[pair.foreground], background), background };
+}
+
+/**
+ * Check every pair whose colors are known
+ *
+ * A translucent background without a known base is treated as drawn on black.
+ *
+ * @param colors Effective colors (customizations, theme and defaults merged)
+ * @param level Level (or minimum for text) the `passes` flags and `failures` are computed for
+ * @param pairs Pairs to check (default: CONTRAST_PAIRS)
+ * @param algorithm 'wcag2' ratios or 'apca' Lc (polarity-aware, stricter on dark themes)
+ */
+export function auditContrast(
+  colors: ColorMap,
+  level: ContrastTarget = 'AA',
+  pairs: ContrastPair[] = CONTRAST_PAIRS,
+  algorithm: ContrastAlgorithm = 'wcag2'
+): ContrastReport {
+  const manipulator = new ColorManipulator();
+  const checked: ContrastCheck[] = [];
+  const skipped: ContrastReport['skipped'] = [];
+
+  for (const pair of pairs) {
+    const missing = [pair.foreground, pair.background].filter(key => !colors[key] || !manipulator.isValidColor(colors[key]));
+    if (missing.length > 0) {
+      skipped.push({ foreground: pair.foreground, background: pair.background, missing });
+      continue;
+    }
+
+    const flat = compositePair(pair, colors);
+    const lc = algorithm === 'apca' ? manipulator.getAPCAContrast(flat.foreground, flat.background) : undefined;
+    const ratio = lc !== undefined ? Math.abs(lc) : manipulator.getContrastRatio(flat.foreground, flat.background);
+    const required = requiredContrast(pair, level, algorithm);
+    checked.push({
+      ...pair,
+      foregroundValue: colors[pair.foreground],
+      backgroundValue: colors[pair.background],
+      ratio: Math.round(ratio * 100) / 100,
+      required,
+      ...(lc !== undefined ? { lc: Math.round(lc * 100) / 100 } : {}),
+      grade: gradeOf(ratio, pair, algorithm),
+      passes: ratio >= required,
+    });
+  }
+
+  const failures = checked.filter(check => !check.passes).sort((a, b) => a.ratio - b.ratio);
+  const meets = (target: WcagLevel) => checked.every(check => check.ratio >= requiredContrast(check, target, algorithm));
+
+  return {
+    level,
+    algorithm,
+    grade: meets('AAA') ? 'AAA' : meets('AA') ? 'AA' : 'Fail',
+    checked,
+    failures,
+    skipped,
+  };
+}
+
+/**
+ * Compute readable foregrounds for failing pairs
+ *
+ * Each failing foreground is adjusted with AdvancedColorOps.ensureReadability
+ * against its composited background, using the report's algorithm. A key that fails on several backgrounds
+ * is adjusted against each in turn, worst first, so re-audit the result to see
+ * what is left.
+ *
+ * @param colors Effective colors the report was computed from
+ * @param report Audit whose failures to fix
+ * @returns New values for the failing foreground keys (opaque hex)
+ */
+export function fixContrast(colors: ColorMap, report: ContrastReport): ColorMap {
+  const fixed: ColorMap = {};
+
+  for (const failure of report.failures) {
+    const current = { ...colors, ...fixed };
+    const flat = compositePair(failure, current);
+    // Nudge a little past the threshold so rounding can't leave it just short
+    const margin = report.algorithm === 'apca' ? 0.5 : 0.05;
+    const readable = AdvancedColorOps.ensureReadability(flat.foreground, flat.background, failure.required + margin, report.algorithm);
+    if (readable.toLowerCase() !== current[failure.foreground].toLowerCase()) {
+      fixed[failure.foreground] = readable;
+    }
+  }
+
+  return fixed;
+}
+
+/**
+ * Check proposed colors against the accessibility policy before they are written
+ *
+ * Only pairs touched by the proposal are checked, so existing problems elsewhere
+ * don't block unrelated edits. Pairs whose other half is unknown are skipped.
+ *
+ * @param proposed Colors about to be written
+ * @param current Effective colors before the write (at least keysOfPairs(pairsInvolving(proposed)))
+ * @param policy Minimum contrast and mode
+ */
+export function checkContrastPolicy(proposed: ColorMap, current: ColorMap, policy: AccessibilityPolicy): PolicyCheck {
+  const pairs = pairsInvolving(Object.keys(proposed));
+  const merged = { ...current, ...proposed };
+  const report = auditContrast(merged, policy.minimumContrast, pairs);
+  const describe = (check: ContrastCheck) =>
+    `${check.description}: ${check.foreground} on ${check.background} is ${check.ratio}:1 (minimum ${check.required}:1)`;
+
+  if (report.failures.length === 0) {
+    return { colors: proposed, blocked: false, fixes: {}, accessibility: { passed: true, warnings: [], suggestions: [] } };
+  }
+
+  const fixes = fixContrast(merged, report);
+  const suggestions = Object.entries(fixes).map(([key, value]) => `Set ${key} to ${value}`);
+
+  if (policy.mode !== 'autoFix') {
+    return {
+      colors: policy.mode === 'block' ? {} : proposed,
+      blocked: policy.mode === 'block',
+      fixes: {},
+      accessibility: { passed: false, warnings: report.failures.map(describe), suggestions },
+    };
+  }
+
+  const remaining = auditContrast({ ...merged, ...fixes }, policy.minimumContrast, pairs).failures;
+  return {
+    colors: { ...proposed, ...fixes },
+    blocked: false,
+    fixes,
+    accessibility: {
+      passed: remaining.length === 0,
+      warnings: [
+        ...Object.entries(fixes).map(([key, value]) => `Adjusted ${key} from ${merged[key]} to ${value} for contrast`),
+        ...remaining.map(describe),
+      ],
+      suggestions: remaining.length > 0 ? ['Adjust the backgrounds of the remaining pairs; their foregrounds are already at the limit'] : [],
+    },
+  };
+}
@@ -1,4 +1,6 @@
 import tinycolor from 'tinycolor2';
+import { ColorManipulator, ContrastAlgorithm } from './manipulation';
+import { ColorSpace, PerceptualColor, cielabToRgb, interpolate, rgbToCielab } from './spaces';
 
 export interface ColorHarmony {
     name: string;
@@ -15,11 +17,18 @@ export interface ColorGradient {
 export class AdvancedColorOps {
     /**
      * Generate a complete color harmony scheme
+     *
+     * @param space Color space to rotate hue in ('oklch' keeps lightness even across hues; default: 'hsl')
      */
-    public static generateHarmony(baseColor: string, type: 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'split-complementary' | 'square'): ColorHarmony | null {
+    public static generateHarmony(
+        baseColor: string,
+        type: 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'split-complementary' | 'square',
+        space: ColorSpace = 'hsl'
+    ): ColorHarmony | null {
         const color = tinycolor(baseColor);
         if (!color.isValid()) return null;
 
+        const spin = (degrees: number) => PerceptualColor.from(color, space).spin(degrees).toHexString();
         let colors: string[] = [];
         let name = '';
 
@@ -28,10 +37,10 @@ export class AdvancedColorOps {
                 name = 'Analogous Harmony';
                 colors = [
                     color.toHexString(),
-                    color.clone().spin(30).toHexString(),
-                    color.clone().spin(-30).toHexString(),
-                    color.clone().spin(60).toHexString(),
-                    color.clone().spin(-60).toHexString(),
+                    spin(30),
+                    spin(-30),
+                    spin(60),
+                    spin(-60),
                 ];
                 break;
 
@@ -39,7 +48,7 @@ export class AdvancedColorOps {
                 name = 'Complementary Harmony';
                 colors = [
                     color.toHexString(),
-                    color.clone().spin(180).toHexString(),
+                    spin(180),
                 ];
                 break;
 
@@ -47,8 +56,8 @@ export class AdvancedColorOps {
                 name = 'Triadic Harmony';
                 colors = [
                     color.toHexString(),
-                    color.clone().spin(120).toHexString(),
-                    color.clone().spin(240).toHexString(),
+                    spin(120),
+                    spin(240),
                 ];
                 break;
 
@@ -56,9 +65,9 @@ export class AdvancedColorOps {
                 name = 'Tetradic Harmony';
                 colors = [
                     color.toHexString(),
-                    color.clone().spin(90).toHexString(),
-                    color.clone().spin(180).toHexString(),
-                    color.clone().spin(270).toHexString(),
+                    spin(90),
+                    spin(180),
+                    spin(270),
                 ];
                 break;
 
@@ -66,8 +75,8 @@ export class AdvancedColorOps {
                 name = 'Split Complementary Harmony';
                 colors = [
                     color.toHexString(),
-                    color.clone().spin(150).toHexString(),
-                    color.clone().spin(210).toHexString(),
+                    spin(150),
+                    spin(210),
                 ];
                 break;
 
@@ -75,9 +84,9 @@ export class AdvancedColorOps {
                 name = 'Square Harmony';
                 colors = [
                     color.toHexString(),
-                    color.clone().spin(90).toHexString(),
-                    color.clone().spin(180).toHexString(),
-                    color.clone().spin(270).toHexString(),
+                    spin(90),
+                    spin(180),
+                    spin(270),
                 ];
                 break;
         }
@@ -87,8 +96,11 @@ export class AdvancedColorOps {
 
     /**
      * Generate a smooth gradient between colors
+     *
+     * @param space 'hsl' mixes in sRGB (default); 'oklch' and 'lch' interpolate
+     * lightness, chroma and hue, avoiding the grey middle of sRGB mixes
      */
-    public static generateGradient(startColor: string, endColor: string, steps: number): string[] {
+    public static generateGradient(startColor: string, endColor: string, steps: number, space: ColorSpace = 'hsl'): string[] {
         const start = tinycolor(startColor);
         const end = tinycolor(endColor);
 
@@ -99,8 +111,7 @@ export class AdvancedColorOps {
         const gradient: string[] = [];
         for (let i = 0; i < steps; i++) {
             const amount = i / (steps - 1);
-            const mixed = tinycolor.mix(start, end, amount * 100);
-            gradient.push(mixed.toHexString());
+            gradient.push(interpolate(start.toHexString(), end.toHexString(), amount, space));
         }
 
         return gradient;
@@ -108,8 +119,10 @@ export class AdvancedColorOps {
 
     /**
      * Generate monochromatic palette (tints and shades)
+     *
+     * @param space Color space whose lightness is stepped evenly from 0 to 100 (default: 'hsl')
      */
-    public static generateMonochromatic(baseColor: string, count: number = 9): string[] {
+    public static generateMonochromatic(baseColor: string, count: number = 9, space: ColorSpace = 'hsl'): string[] {
         const color = tinycolor(baseColor);
         if (!color.isValid()) return [];
 
@@ -118,9 +131,7 @@ export class AdvancedColorOps {
 
         for (let i = 0; i < count; i++) {
             const lightness = i * step;
-            const hsl = color.toHsl();
-            const variant = tinycolor({ h: hsl.h, s: hsl.s * 100, l: lightness });
-            palette.push(variant.toHexString());
+            palette.push(PerceptualColor.from(color, space).setLightness(lightness).toHexString());
         }
 
         return palette;
@@ -323,18 +334,26 @@ export class AdvancedColorOps {
 
     /**
      * Ensure color is readable against a background
+     *
+     * With 'apca', targetRatio is the APCA Lc to reach (e.g. 75 for body text).
      */
-    public static ensureReadability(foreground: string, background: string, targetRatio: number = 4.5): string {
+    public static ensureReadability(
+        foreground: string,
+        background: string,
+        targetRatio: number = 4.5,
+        algorithm: ContrastAlgorithm = 'wcag2'
+    ): string {
         const fg = tinycolor(foreground);
         const bg = tinycolor(background);
 
         if (!fg.isValid() || !bg.isValid()) return foreground;
 
+        const manipulator = new ColorManipulator();
         let attempts = 0;
         let current = fg.clone();
 
         while (attempts < 100) {
-            const ratio = tinycolor.readability(current, bg);
+            const ratio = manipulator.getContrast(current.toHexString(), bg.toHexString(), algorithm);
             if (ratio >= targetRatio) {
                 return current.toHexString();
             }
@@ -352,54 +371,20 @@ export class AdvancedColorOps {
         return current.toHexString();
     }
 
-    // Helper methods for LAB color space conversion
-    private static rgbToLab(rgb: { r: number; g: number; b: number }): { l: number; a: number; b: number } {
-        // Convert RGB to XYZ
-        let r = rgb.r / 255;
-        let g = rgb.g / 255;
-        let b = rgb.b / 255;
-
-        r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-        g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-        b = b > 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
-
-        let x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
-        let y = (r * 0.2126 + g * 0.7152 + b * 0.0722) / 1.00000;
-        let z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
-
-        x = x > 0.008856 ? Math.pow(x, 1 / 3) : (7.787 * x) + 16 / 116;
-        y = y > 0.008856 ? Math.pow(y, 1 / 3) : (7.787 * y) + 16 / 116;
-        z = z > 0.008856 ? Math.pow(z, 1 / 3) : (7.787 * z) + 16 / 116;
-
-        return {
-            l: (116 * y) - 16,
-            a: 500 * (x - y),
-            b: 200 * (y - z)
-        };
+    /**
+     * Convert RGB (0-255) to CIELAB (D65)
+     */
+    public static rgbToLab(rgb: { r: number; g: number; b: number }): { l: number; a: number; b: number } {
+        return rgbToCielab(rgb);
     }
 
-    private static labToRgb(lab: { l: number; a: number; b: number }): { r: number; g: number; b: number } {
-        let y = (lab.l + 16) / 116;
-        let x = lab.a / 500 + y;
-        let z = y - lab.b / 200;
-
-        x = 0.95047 * ((x * x * x > 0.008856) ? x * x * x : (x - 16 / 116) / 7.787);
-        y = 1.00000 * ((y * y * y > 0.008856) ? y * y * y : (y - 16 / 116) / 7.787);
-        z = 1.08883 * ((z * z * z > 0.008856) ? z * z * z : (z - 16 / 116) / 7.787);
-
-        let r = x * 3.2406 + y * -1.5372 + z * -0.4986;
-        let g = x * -0.9689 + y * 1.8758 + z * 0.0415;
-        let b = x * 0.0557 + y * -0.2040 + z * 1.0570;
-
-        r = r > 0.0031308 ? 1.055 * Math.pow(r, 1 / 2.4) - 0.055 : 12.92 * r;
-        g = g > 0.0031308 ? 1.055 * Math.pow(g, 1 / 2.4) - 0.055 : 12.92 * g;
-        b = b > 0.0031308 ? 1.055 * Math.pow(b, 1 / 2.4) - 0.055 : 12.92 * b;
-
-        return {
-            r: Math.max(0, Math.min(255, Math.round(r * 255))),
-            g: Math.max(0, Math.min(255, Math.round(g * 255))),
-            b: Math.max(0, Math.min(255, Math.round(b * 255)))
-        };
+    /**
+     * Convert CIELAB (D65) to RGB (0-255, clamped)
+     */
+    public static labToRgb(lab: { l: number; a: number; b: number }): { r: number; g: number; b: number } {
+        const rgb = cielabToRgb(lab);
+        const clamp = (channel: number) => Math.max(0, Math.min(255, Math.round(channel)));
+        return { r: clamp(rgb.r), g: clamp(rgb.g), b: clamp(rgb.b) };
     }
 
     private static interpolateHue(start: number, end: number, t: number): number {
@@ -0,0 +1,31 @@
+import type { ColorMap } from './groups';
+import type { ColorChange } from '../mcp/types';
+
+/**
+ * Compute the key-level differences between two color maps
+ *
+ * Keys are reported in sorted order. A key present only in `before` is reported
+ * with an undefined newValue (it was removed); a key present only in `after`
+ * has an undefined oldValue (it was added).
+ *
+ * @param before Color map before the change
+ * @param after Color map after the change
+ * @param reason Human-readable reason attached to every change
+ * @returns List of changed keys with their old and new values
+ *
+ * @example
+ * diffColorMaps({ 'editor.background': '#000000' }, {}, 'reset')
+ * // [{ key: 'editor.background', oldValue: '#000000', newValue: undefined, reason: 'reset' }]
+ */
+export function diffColorMaps(before: ColorMap, after: ColorMap, reason: string): ColorChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: ColorChange[] = [];
+
+  for (const key of [...keys].sort()) {
+    if (before[key] !== after[key]) {
+      changes.push({ key, oldValue: before[key], newValue: after[key], reason });
+    }
+  }
+
+  return changes;
+}
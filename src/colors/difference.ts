@@ -0,0 +1,343 @@
+import tinycolor from 'tinycolor2';
+import type { ColorMap } from './groups';
+import { ColorManipulator } from './manipulation';
+import { Lab, PerceptualColor, rgbToCielab, rgbToOklab } from './spaces';
+
+/**
+ * Color difference formula
+ *
+ * - ciede2000: CIE Delta E 2000 on CIELAB (D65); about 1 is a just-noticeable difference
+ * - oklab: Euclidean distance in OKLab, scaled by 100 so it reads on the same scale
+ */
+export type DeltaEMethod = 'ciede2000' | 'oklab';
+
+export const DELTA_E_METHODS: DeltaEMethod[] = ['ciede2000', 'oklab'];
+
+/**
+ * Below this Delta E two colors count as near-duplicates (hard to tell apart side by side)
+ */
+export const DEFAULT_DUPLICATE_DELTA_E = 2;
+
+/**
+ * Smallest Delta E between adjacent surfaces for the boundary to stay visible without a border
+ */
+export const DEFAULT_SURFACE_DELTA_E = 5;
+
+/**
+ * Large background areas of the workbench, in the order they are separated:
+ * the editor stays put and each later surface moves away from the earlier ones
+ */
+export const SURFACE_KEYS = [
+  'editor.background',
+  'sideBar.background',
+  'activityBar.background',
+  'panel.background',
+  'statusBar.background',
+];
+
+/**
+ * Two keys whose colors are hard to tell apart
+ */
+export interface NearDuplicate {
+  keys: [string, string];
+  values: [string, string];
+  deltaE: number;
+}
+
+/**
+ * A surface moved to keep its distance from the others
+ */
+export interface SurfaceAdjustment {
+  key: string;
+  oldValue: string;
+  newValue: string;
+  /** Surface it was too close to */
+  closest: string;
+  deltaEBefore: number;
+  deltaEAfter: number;
+}
+
+export interface SurfaceSeparation {
+  minimumDeltaE: number;
+  method: DeltaEMethod;
+  /** Surfaces present in the palette, in separation order */
+  surfaces: string[];
+  adjustments: SurfaceAdjustment[];
+  fixes: ColorMap;
+  /**
+   * Surfaces no lightness could separate (the others already use the available range),
+   * and both surfaces of any fixed pair that is too close
+   */
+  unresolved: string[];
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * CIEDE2000 color difference between two CIELAB colors (Sharma, Wu and Dalal, 2005),
+ * with the parametric weights kL = kC = kH = 1
+ *
+ * @example
+ * deltaE2000({ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }) // 2.0425
+ * deltaE2000({ l: 50, a: 0, b: 0 }, { l: 50, a: -1, b: 2 })                    // 2.3669
+ * deltaE2000({ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 })                // 27.1492
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const c1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const c2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const cMean7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))));
+
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const cp1 = Math.sqrt(a1 * a1 + lab1.b * lab1.b);
+  const cp2 = Math.sqrt(a2 * a2 + lab2.b * lab2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) {
+      return 0;
+    }
+    const h = toDegrees(Math.atan2(b, a));
+    return h < 0 ? h + 360 : h;
+  };
+  const hp1 = hue(lab1.b, a1);
+  const hp2 = hue(lab2.b, a2);
+
+  const deltaL = lab2.l - lab1.l;
+  const deltaC = cp2 - cp1;
+  let deltah = 0;
+  if (cp1 * cp2 !== 0) {
+    deltah = hp2 - hp1;
+    if (deltah > 180) {
+      deltah -= 360;
+    } else if (deltah < -180) {
+      deltah += 360;
+    }
+  }
+  const deltaH = 2 * Math.sqrt(cp1 * cp2) * Math.sin(toRadians(deltah / 2));
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cpMean = (cp1 + cp2) / 2;
+  let hpMean = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) {
+      hpMean /= 2;
+    } else {
+      hpMean = hpMean < 360 ? (hpMean + 360) / 2 : (hpMean - 360) / 2;
+    }
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hpMean - 30))
+    + 0.24 * Math.cos(toRadians(2 * hpMean))
+    + 0.32 * Math.cos(toRadians(3 * hpMean + 6))
+    - 0.20 * Math.cos(toRadians(4 * hpMean - 63));
+  const lOffset = Math.pow(lMean - 50, 2);
+  const sL = 1 + (0.015 * lOffset) / Math.sqrt(20 + lOffset);
+  const sC = 1 + 0.045 * cpMean;
+  const sH = 1 + 0.015 * cpMean * t;
+  const cpMean7 = Math.pow(cpMean, 7);
+  const rT = -2 * Math.sqrt(cpMean7 / (cpMean7 + Math.pow(25, 7)))
+    * Math.sin(toRadians(60 * Math.exp(-Math.pow((hpMean - 275) / 25, 2))));
+
+  return Math.sqrt(
+    Math.pow(deltaL / sL, 2)
+    + Math.pow(deltaC / sC, 2)
+    + Math.pow(deltaH / sH, 2)
+    + rT * (deltaC / sC) * (deltaH / sH)
+  );
+}
+
+/**
+ * Euclidean distance between two OKLab colors, times 100
+ *
+ * @example
+ * deltaEOK(rgbToOklab({ r: 0, g: 0, b: 0 }), rgbToOklab({ r: 255, g: 255, b: 255 })) // 100 (rounded)
+ */
+export function deltaEOK(lab1: Lab, lab2: Lab): number {
+  return 100 * Math.sqrt(Math.pow(lab1.l - lab2.l, 2) + Math.pow(lab1.a - lab2.a, 2) + Math.pow(lab1.b - lab2.b, 2));
+}
+
+/**
+ * Coordinates a method measures in (alpha is ignored; composite first)
+ */
+function toLab(color: tinycolor.ColorInput, method: DeltaEMethod): Lab {
+  const rgb = tinycolor(color).toRgb();
+  return method === 'oklab' ? rgbToOklab(rgb) : rgbToCielab(rgb);
+}
+
+function distance(lab1: Lab, lab2: Lab, method: DeltaEMethod): number {
+  return method === 'oklab' ? deltaEOK(lab1, lab2) : deltaE2000(lab1, lab2);
+}
+
+/**
+ * Perceptual difference between two opaque colors
+ *
+ * @example
+ * colorDifference('#1e1e1e', '#252526')           // 2.35
+ * colorDifference('#1e1e1e', '#252526', 'oklab') // 2.99
+ */
+export function colorDifference(color1: string, color2: string, method: DeltaEMethod = 'ciede2000'): number {
+  return Math.round(distance(toLab(color1, method), toLab(color2, method), method) * 100) / 100;
+}
+
+/**
+ * Find pairs of keys whose colors are near-duplicates
+ *
+ * Translucent colors are composited onto editor.background first (and skipped
+ * if the palette doesn't have one), since that is where most overlays land.
+ * Pairs with identical values are included: two surfaces with the same color
+ * show no boundary at all.
+ *
+ * @param colors Palette to check
+ * @param threshold Pairs closer than this are reported
+ * @param method Difference formula
+ * @returns Pairs sorted from closest to farthest
+ */
+export function findNearDuplicates(
+  colors: ColorMap,
+  threshold: number = DEFAULT_DUPLICATE_DELTA_E,
+  method: DeltaEMethod = 'ciede2000'
+): NearDuplicate[] {
+  const manipulator = new ColorManipulator();
+  const backdrop = colors['editor.background'];
+
+  const entries: { key: string; value: string; lab: Lab }[] = [];
+  for (const [key, value] of Object.entries(colors)) {
+    const color = tinycolor(value);
+    if (!color.isValid() || (color.getAlpha() < 1 && !backdrop)) {
+      continue;
+    }
+    const opaque = color.getAlpha() < 1 ? manipulator.composite(value, backdrop) : value;
+    entries.push({ key, value, lab: toLab(opaque, method) });
+  }
+
+  const duplicates: NearDuplicate[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const deltaE = distance(entries[i].lab, entries[j].lab, method);
+      if (deltaE < threshold) {
+        duplicates.push({
+          keys: [entries[i].key, entries[j].key],
+          values: [entries[i].value, entries[j].value],
+          deltaE: Math.round(deltaE * 100) / 100,
+        });
+      }
+    }
+  }
+  return duplicates.sort((a, b) => a.deltaE - b.deltaE);
+}
+
+/**
+ * Move adjacent surfaces apart until every pair is at least a minimum Delta E
+ *
+ * Surfaces are placed in order: the first one present (normally
+ * editor.background) is the anchor, then the fixed surfaces, and each other
+ * surface that is too close to one already placed has its OKLCH lightness
+ * moved by the smallest amount that clears all of them. Hue and chroma are kept (chroma only drops where
+ * sRGB can't hold it). When both directions work, the surface stays on the
+ * side of the anchor it is already on, so a darker sidebar stays darker.
+ * Every pair is checked, as the panel and sidebar can be moved next to any
+ * of the others.
+ *
+ * @param colors Palette containing the surfaces (translucent ones are measured over the anchor)
+ * @param minimumDeltaE Smallest acceptable distance between two surfaces
+ * @param method Difference formula
+ * @param surfaces Surface keys in placement order
+ * @param fixed Surfaces that must keep their color (e.g. brand colors); the others move around them.
+ *   Two fixed surfaces (or a fixed one and the anchor) that are too close are both reported as unresolved.
+ *
+ * @example
+ * separateSurfaces({ 'editor.background': '#1e1e1e', 'sideBar.background': '#1e1e1e' }).fixes
+ * // { 'sideBar.background': '#2f2f2f' }
+ */
+export function separateSurfaces(
+  colors: ColorMap,
+  minimumDeltaE: number = DEFAULT_SURFACE_DELTA_E,
+  method: DeltaEMethod = 'ciede2000',
+  surfaces: string[] = SURFACE_KEYS,
+  fixed: string[] = []
+): SurfaceSeparation {
+  const manipulator = new ColorManipulator();
+  const present = surfaces.filter(key => colors[key] && tinycolor(colors[key]).isValid());
+  const result: SurfaceSeparation = { minimumDeltaE, method, surfaces: present, adjustments: [], fixes: {}, unresolved: [] };
+  if (present.length < 2) {
+    return result;
+  }
+
+  const anchor = manipulator.composite(colors[present[0]], '#000000');
+  const anchorLightness = PerceptualColor.from(anchor, 'oklch').getLightness();
+  const measure = (value: string) => toLab(manipulator.composite(value, anchor), method);
+  const placed: { key: string; lab: Lab }[] = [{ key: present[0], lab: toLab(anchor, method) }];
+
+  // Surfaces that can't move go first, so the others are moved around all of them
+  const isFixed = (key: string) => key === present[0] || fixed.includes(key);
+  result.surfaces = [...present.filter(isFixed), ...present.filter(key => !isFixed(key))];
+
+  // Closest placed surface to a candidate
+  const closest = (lab: Lab) => placed
+    .map(other => ({ key: other.key, deltaE: distance(lab, other.lab, method) }))
+    .reduce((best, next) => (next.deltaE < best.deltaE ? next : best));
+
+  for (const key of result.surfaces.slice(1)) {
+    const value = colors[key];
+    const before = closest(measure(value));
+    if (before.deltaE >= minimumDeltaE) {
+      placed.push({ key, lab: measure(value) });
+      continue;
+    }
+
+    // Everything placed so far is fixed too, so neither side may move
+    if (isFixed(key)) {
+      for (const unresolved of [before.key, key]) {
+        if (!result.unresolved.includes(unresolved)) {
+          result.unresolved.push(unresolved);
+        }
+      }
+      placed.push({ key, lab: measure(value) });
+      continue;
+    }
+
+    const original = PerceptualColor.from(value, 'oklch');
+    const lightness = original.getLightness();
+    const alpha = tinycolor(value).getAlpha();
+    const preferred = lightness > anchorLightness ? 1 : -1;
+
+    let moved: { value: string; lab: Lab; deltaE: number } | undefined;
+    for (let step = 1; step <= 100 && !moved; step++) {
+      for (const direction of [preferred, -preferred]) {
+        const target = lightness + direction * step;
+        if (target < 0 || target > 100) {
+          continue;
+        }
+        const candidate = original.clone().setLightness(target);
+        const candidateValue = alpha < 1 ? candidate.toHex8String() : candidate.toHexString();
+        const lab = measure(candidateValue);
+        const nearest = closest(lab);
+        if (nearest.deltaE >= minimumDeltaE) {
+          moved = { value: candidateValue, lab, deltaE: nearest.deltaE };
+          break;
+        }
+      }
+    }
+
+    if (!moved) {
+      result.unresolved.push(key);
+      placed.push({ key, lab: measure(value) });
+      continue;
+    }
+
+    result.fixes[key] = moved.value;
+    result.adjustments.push({
+      key,
+      oldValue: value,
+      newValue: moved.value,
+      closest: before.key,
+      deltaEBefore: Math.round(before.deltaE * 100) / 100,
+      deltaEAfter: Math.round(moved.deltaE * 100) / 100,
+    });
+    placed.push({ key, lab: moved.lab });
+  }
+
+  return result;
+}
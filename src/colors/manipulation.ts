@@ -1,4 +1,59 @@
 import tinycolor from 'tinycolor2';
+import { ColorSpace, PerceptualColor } from './spaces';
+
+/**
+ * Contrast algorithm: WCAG 2.x luminance ratio or APCA lightness contrast (Lc)
+ */
+export type ContrastAlgorithm = 'wcag2' | 'apca';
+
+/**
+ * What a color pair is used for, which sets the APCA contrast it needs
+ */
+export type ApcaUsage = 'bodyText' | 'uiLabel' | 'largeText' | 'nonText';
+
+/**
+ * Minimum APCA Lc per usage (APCA "Bronze" readability guidelines):
+ * body text 75, UI labels and other short text 60, large or bold text 45,
+ * icons, cursors, borders and other non-text 30. Preferred levels are 15 higher.
+ */
+export const APCA_THRESHOLDS: Record<ApcaUsage, number> = {
+  bodyText: 75,
+  uiLabel: 60,
+  largeText: 45,
+  nonText: 30,
+};
+
+/**
+ * Whether a value is a hex color in a form VS Code color settings accept:
+ * #RGB, #RGBA, #RRGGBB or #RRGGBBAA
+ *
+ * @example
+ * isHexColor('#ff00ff4d') // true
+ * isHexColor('red')       // false
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
+/**
+ * APCA-W3 0.0.98G-4g constants
+ */
+const APCA = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.0721750,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  loClip: 0.1,
+  deltaYmin: 0.0005,
+};
 
 /**
  * ColorManipulator provides a comprehensive suite of color manipulation utilities
@@ -14,13 +69,19 @@ export class ColorManipulator {
    * Adjust brightness of a color by percentage
    * @param color Hex color string (e.g., "#ff0000")
    * @param amount Percentage to adjust (-100 to 100)
+   * @param space Color space to adjust lightness in (default: 'hsl'; 'oklch' and
+   * 'lch' change lightness without shifting hue, gamut-mapped to sRGB)
    * @returns Adjusted hex color string
    *
    * @example
    * adjustBrightness('#00ff00', 20)  // Returns brighter green
    * adjustBrightness('#00ff00', -20) // Returns darker green
    */
-  adjustBrightness(color: string, amount: number): string {
+  adjustBrightness(color: string, amount: number, space: ColorSpace = 'hsl'): string {
+    if (space !== 'hsl') {
+      const perceptual = PerceptualColor.from(color, space);
+      return (amount > 0 ? perceptual.lighten(amount) : perceptual.darken(Math.abs(amount))).toHexString();
+    }
     const tc = tinycolor(color);
     if (amount > 0) {
       return tc.brighten(amount).toHexString();
@@ -33,13 +94,19 @@ export class ColorManipulator {
    * Adjust saturation of a color by percentage
    * @param color Hex color string
    * @param amount Percentage to adjust (-100 to 100)
+   * @param space Color space to adjust in (default: 'hsl'; in 'oklch' and 'lch'
+   * chroma is scaled by the percentage)
    * @returns Adjusted hex color string
    *
    * @example
    * adjustSaturation('#00ff00', 20)  // More vibrant
    * adjustSaturation('#00ff00', -20) // More muted/grey
    */
-  adjustSaturation(color: string, amount: number): string {
+  adjustSaturation(color: string, amount: number, space: ColorSpace = 'hsl'): string {
+    if (space !== 'hsl') {
+      const perceptual = PerceptualColor.from(color, space);
+      return (amount > 0 ? perceptual.saturate(amount) : perceptual.desaturate(Math.abs(amount))).toHexString();
+    }
     const tc = tinycolor(color);
     if (amount > 0) {
       return tc.saturate(amount).toHexString();
@@ -52,15 +119,16 @@ export class ColorManipulator {
    * Shift hue by degrees on the color wheel
    * @param color Hex color string
    * @param degrees Degrees to rotate (-360 to 360)
+   * @param space Color space to rotate in (default: 'hsl'; 'oklch' keeps the
+   * perceived lightness, so e.g. blue to yellow doesn't jump in brightness)
    * @returns Color with shifted hue
    *
    * @example
    * shiftHue('#ff0000', 120) // Red -> Green
    * shiftHue('#ff0000', 240) // Red -> Blue
    */
-  shiftHue(color: string, degrees: number): string {
-    const tc = tinycolor(color);
-    return tc.spin(degrees).toHexString();
+  shiftHue(color: string, degrees: number, space: ColorSpace = 'hsl'): string {
+    return PerceptualColor.from(color, space).spin(degrees).toHexString();
   }
 
   /**
@@ -165,6 +233,78 @@ export class ColorManipulator {
     return this.getContrastRatio(foreground, background) >= 7.0;
   }
 
+  /**
+   * Calculate APCA lightness contrast (Lc) of text on a background
+   *
+   * Unlike the WCAG 2 ratio, APCA is polarity-aware: dark text on a light
+   * background gives a positive Lc, light text on a dark background a negative
+   * one, and the two are not symmetric. It also stops overrating pairs of dark
+   * colors, which WCAG 2 judges too generously. Compare the absolute value with
+   * APCA_THRESHOLDS.
+   *
+   * @param text Text (foreground) hex color string
+   * @param background Background hex color string
+   * @returns Lc from about -108 to 106 (0 = no readable contrast)
+   *
+   * @example
+   * // Reference values from the APCA-W3 0.0.98G-4g documentation
+   * getAPCAContrast('#888888', '#ffffff') // 63.056469930209424
+   * getAPCAContrast('#ffffff', '#888888') // -68.54146436644962
+   * getAPCAContrast('#000000', '#aaaaaa') // 58.146262578561334
+   * getAPCAContrast('#aaaaaa', '#000000') // -56.24113336839742
+   */
+  getAPCAContrast(text: string, background: string): number {
+    const toY = (color: string) => {
+      const { r, g, b } = tinycolor(color).toRgb();
+      const y = APCA.sRco * Math.pow(r / 255, APCA.mainTRC)
+        + APCA.sGco * Math.pow(g / 255, APCA.mainTRC)
+        + APCA.sBco * Math.pow(b / 255, APCA.mainTRC);
+      // Soft clamp near black, where displays flare
+      return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+    };
+
+    const txtY = toY(text);
+    const bgY = toY(background);
+    if (Math.abs(bgY - txtY) < APCA.deltaYmin) {
+      return 0;
+    }
+
+    if (bgY > txtY) {
+      // Normal polarity: dark text on a light background
+      const sapc = (Math.pow(bgY, APCA.normBG) - Math.pow(txtY, APCA.normTXT)) * APCA.scale;
+      return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+    }
+
+    // Reverse polarity: light text on a dark background
+    const sapc = (Math.pow(bgY, APCA.revBG) - Math.pow(txtY, APCA.revTXT)) * APCA.scale;
+    return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+  }
+
+  /**
+   * Check if text meets the APCA minimum for a usage
+   *
+   * @param text Text (foreground) hex color string
+   * @param background Background hex color string
+   * @param usage What the text is used for (default: body text, Lc 75)
+   * @returns true if |Lc| reaches APCA_THRESHOLDS[usage]
+   */
+  meetsAPCA(text: string, background: string, usage: ApcaUsage = 'bodyText'): boolean {
+    return Math.abs(this.getAPCAContrast(text, background)) >= APCA_THRESHOLDS[usage];
+  }
+
+  /**
+   * Contrast score of a pair with either algorithm
+   *
+   * @param text Text (foreground) hex color string
+   * @param background Background hex color string
+   * @param algorithm 'wcag2' for the 1-21 ratio, 'apca' for |Lc| (0-108)
+   */
+  getContrast(text: string, background: string, algorithm: ContrastAlgorithm = 'wcag2'): number {
+    return algorithm === 'apca'
+      ? Math.abs(this.getAPCAContrast(text, background))
+      : this.getContrastRatio(text, background);
+  }
+
   /**
    * Mix two colors together
    *
@@ -181,6 +321,25 @@ export class ColorManipulator {
     return tinycolor.mix(color1, color2, amount).toHexString();
   }
 
+  /**
+   * Composite a (possibly translucent) color over a backdrop
+   * Contrast math ignores alpha, so translucent colors must be flattened first.
+   *
+   * @param color Hex color string, optionally with alpha (e.g., "#ffffff80")
+   * @param backdrop Color it is drawn on (its own alpha is ignored)
+   * @returns Opaque hex color string
+   *
+   * @example
+   * composite('#ffffff80', '#000000') // Returns "#808080"
+   * composite('#ff0000', '#000000')   // Returns "#ff0000" (already opaque)
+   */
+  composite(color: string, backdrop: string): string {
+    const fg = tinycolor(color).toRgb();
+    const bg = tinycolor(backdrop).toRgb();
+    const blend = (top: number, bottom: number) => Math.round(top * fg.a + bottom * (1 - fg.a));
+    return tinycolor({ r: blend(fg.r, bg.r), g: blend(fg.g, bg.g), b: blend(fg.b, bg.b) }).toHexString();
+  }
+
   /**
    * Convert color to RGB string format
    * Useful for CSS rgba() values
@@ -194,7 +353,8 @@ export class ColorManipulator {
 
   /**
    * Validate if string is a valid color
-   * Supports hex, rgb, rgba, hsl, hsla, named colors
+   * Supports hex, rgb, rgba, hsl, hsla, named colors (see isHexColor for
+   * values that go into settings files)
    *
    * @param color Color string to validate
    * @returns true if valid color, false otherwise
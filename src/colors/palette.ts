@@ -0,0 +1,273 @@
+import { PNG } from 'pngjs';
+import * as jpeg from 'jpeg-js';
+import tinycolor from 'tinycolor2';
+import { AdvancedColorOps } from './advanced';
+import { Lab, PerceptualColor, fromLch, labToLch, oklabToRgb, rgbToOklab } from './spaces';
+
+/**
+ * Decoded image as 8-bit RGBA rows
+ */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * One dominant color of an image
+ */
+export interface PaletteColor {
+  color: string;
+  /** Share of the (opaque) image this color stands for, 0-1 */
+  population: number;
+  /** OKLCH lightness, 0-100 */
+  lightness: number;
+  /** OKLCH chroma (0 for greys, about 0.3 for the most vivid sRGB colors) */
+  chroma: number;
+  /** OKLCH hue in degrees */
+  hue: number;
+}
+
+/**
+ * Theme roles picked from an image palette
+ */
+export interface PaletteRoles {
+  kind: 'dark' | 'light';
+  background: string;
+  /** Sidebar, activity bar and title bar: a step away from the background */
+  surface: string;
+  foreground: string;
+  accent: string;
+  secondaryAccent: string;
+}
+
+export const DEFAULT_PALETTE_SIZE = 6;
+
+// Pixels with less alpha than this are left out (transparent logo backgrounds)
+const MIN_ALPHA = 128;
+// Sampled pixels per image; larger images are read with a stride
+const MAX_SAMPLES = 250000;
+// Chroma below this reads as grey
+const GREY_CHROMA = 0.03;
+
+/**
+ * Decode a PNG or JPEG file (pure JavaScript, no native modules)
+ *
+ * @throws Error if the data is neither PNG nor JPEG, or is corrupt
+ */
+export function decodeImage(buffer: Buffer): DecodedImage {
+  const isPng = buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47;
+  const isJpeg = buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+
+  try {
+    if (isPng) {
+      const png = PNG.sync.read(buffer);
+      return { width: png.width, height: png.height, data: png.data };
+    }
+    if (isJpeg) {
+      const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 1024 });
+      return { width: decoded.width, height: decoded.height, data: decoded.data };
+    }
+  } catch (error) {
+    throw new Error(`Could not decode ${isPng ? 'PNG' : 'JPEG'} image: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  throw new Error('Unsupported image format. Only PNG and JPEG images can be read');
+}
+
+function squaredDistance(a: Lab, b: Lab): number {
+  return Math.pow(a.l - b.l, 2) + Math.pow(a.a - b.a, 2) + Math.pow(a.b - b.b, 2);
+}
+
+/**
+ * Dominant colors of an image, by k-means in OKLab
+ *
+ * Pixels are first binned into a 15-bit RGB histogram, so the clustering runs
+ * over at most 32768 weighted points whatever the image size. Seeds are
+ * picked k-means++ style but deterministically (the heaviest bin, then the bin
+ * with the highest weight times squared distance to the chosen seeds), so the
+ * same image always gives the same palette. Clustering in OKLab groups colors
+ * the way they look rather than by RGB distance.
+ *
+ * @param image Decoded image
+ * @param count Number of colors to find (fewer come back for images with fewer distinct colors)
+ * @returns Colors sorted by population, largest first
+ * @throws Error if the image has no opaque pixels
+ */
+export function extractPalette(image: DecodedImage, count: number = DEFAULT_PALETTE_SIZE): PaletteColor[] {
+  const pixels = image.width * image.height;
+  const stride = Math.max(1, Math.floor(pixels / MAX_SAMPLES));
+
+  // 5 bits per channel; each bin keeps its RGB sums so its mean color is exact
+  const bins = new Map<number, { r: number; g: number; b: number; weight: number }>();
+  for (let i = 0; i < pixels; i += stride) {
+    const offset = i * 4;
+    if (image.data[offset + 3] < MIN_ALPHA) {
+      continue;
+    }
+    const r = image.data[offset];
+    const g = image.data[offset + 1];
+    const b = image.data[offset + 2];
+    const index = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const bin = bins.get(index);
+    if (bin) {
+      bin.r += r;
+      bin.g += g;
+      bin.b += b;
+      bin.weight++;
+    } else {
+      bins.set(index, { r, g, b, weight: 1 });
+    }
+  }
+  if (bins.size === 0) {
+    throw new Error('Image has no opaque pixels');
+  }
+
+  const points = [...bins.values()].map(bin => ({
+    lab: rgbToOklab({ r: bin.r / bin.weight, g: bin.g / bin.weight, b: bin.b / bin.weight }),
+    weight: bin.weight,
+  }));
+  const total = points.reduce((sum, point) => sum + point.weight, 0);
+
+  // Deterministic k-means++ seeding
+  const centers: Lab[] = [points.reduce((best, point) => (point.weight > best.weight ? point : best)).lab];
+  const nearest = points.map(point => squaredDistance(point.lab, centers[0]));
+  while (centers.length < count) {
+    let best = -1;
+    let bestScore = 0;
+    points.forEach((point, i) => {
+      const score = point.weight * nearest[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best < 0) {
+      break; // every remaining point sits on a seed
+    }
+    centers.push(points[best].lab);
+    points.forEach((point, i) => {
+      nearest[i] = Math.min(nearest[i], squaredDistance(point.lab, points[best].lab));
+    });
+  }
+
+  // Lloyd iterations over the weighted bins
+  const assignment = new Array<number>(points.length).fill(-1);
+  const weights = new Array<number>(centers.length).fill(0);
+  for (let iteration = 0; iteration < 20; iteration++) {
+    let changed = false;
+    points.forEach((point, i) => {
+      let closest = 0;
+      for (let c = 1; c < centers.length; c++) {
+        if (squaredDistance(point.lab, centers[c]) < squaredDistance(point.lab, centers[closest])) {
+          closest = c;
+        }
+      }
+      if (assignment[i] !== closest) {
+        assignment[i] = closest;
+        changed = true;
+      }
+    });
+    if (!changed) {
+      break;
+    }
+
+    const sums = centers.map(() => ({ l: 0, a: 0, b: 0, weight: 0 }));
+    points.forEach((point, i) => {
+      const sum = sums[assignment[i]];
+      sum.l += point.lab.l * point.weight;
+      sum.a += point.lab.a * point.weight;
+      sum.b += point.lab.b * point.weight;
+      sum.weight += point.weight;
+    });
+    sums.forEach((sum, c) => {
+      weights[c] = sum.weight;
+      if (sum.weight > 0) {
+        centers[c] = { l: sum.l / sum.weight, a: sum.a / sum.weight, b: sum.b / sum.weight };
+      }
+    });
+  }
+
+  return centers
+    .map((center, c) => {
+      const rgb = oklabToRgb(center);
+      const clamp = (channel: number) => Math.min(255, Math.max(0, channel));
+      const lch = labToLch(center);
+      return {
+        color: tinycolor({ r: clamp(rgb.r), g: clamp(rgb.g), b: clamp(rgb.b) }).toHexString(),
+        population: Math.round((weights[c] / total) * 1000) / 1000,
+        lightness: Math.round(lch.l * 1000) / 10,
+        chroma: Math.round(lch.c * 1000) / 1000,
+        hue: Math.round(lch.h),
+      };
+    })
+    .filter(entry => entry.population > 0)
+    .sort((a, b) => b.population - a.population);
+}
+
+/**
+ * Pick theme roles from an image palette by lightness and chroma
+ *
+ * - background: the most common color on the theme's side (dark or light),
+ *   favoring greys, pushed to editor depth (OKLCH lightness at most 20 for
+ *   dark, at least 96 for light) with its chroma capped so it stays a tint
+ * - surface: the next best background candidate's hue, 5 points darker than
+ *   the background (lighter when the background is already near black)
+ * - accent: the most vivid common color (chroma times the square root of
+ *   population), kept at a lightness that reads on the background
+ * - secondaryAccent: the next vivid color at least 40 degrees of hue away, or
+ *   the accent's complement when the image has only one hue
+ * - foreground: a near-neutral in the background's hue, readable on it
+ *
+ * @param palette Colors from extractPalette
+ * @param kind Theme kind; by default dark unless the image is mostly light
+ */
+export function assignRoles(palette: PaletteColor[], kind?: 'dark' | 'light'): PaletteRoles {
+  if (palette.length === 0) {
+    throw new Error('Palette is empty');
+  }
+  const meanLightness = palette.reduce((sum, entry) => sum + entry.lightness * entry.population, 0)
+    / palette.reduce((sum, entry) => sum + entry.population, 0);
+  const themeKind = kind ?? (meanLightness > 60 ? 'light' : 'dark');
+  const dark = themeKind === 'dark';
+
+  // Background candidates: common, on the right side of mid-grey, not vivid
+  const backgroundScore = (entry: PaletteColor) =>
+    entry.population * (dark ? 100 - entry.lightness : entry.lightness) / (1 + entry.chroma * 10);
+  const candidates = [...palette].sort((a, b) => backgroundScore(b) - backgroundScore(a));
+
+  const toBackground = (entry: PaletteColor, lightness: number) => fromLch({
+    l: lightness,
+    c: Math.min(entry.chroma, dark ? 0.04 : 0.015),
+    h: entry.hue,
+  }, 'oklch');
+
+  const backgroundLightness = dark ? Math.min(candidates[0].lightness, 20) : Math.max(candidates[0].lightness, 96);
+  const background = toBackground(candidates[0], backgroundLightness);
+
+  // Surfaces sit a step darker than the editor, unless it is already near black
+  const step = dark && backgroundLightness < 10 ? 5 : -5;
+  const surface = toBackground(candidates[1] ?? candidates[0], backgroundLightness + step);
+
+  const vividness = (entry: PaletteColor) => entry.chroma * Math.sqrt(entry.population);
+  const vivid = [...palette].filter(entry => entry.chroma >= GREY_CHROMA).sort((a, b) => vividness(b) - vividness(a));
+
+  // Accents need to stand out from the background: light on dark, mid-dark on light
+  const accentLightness = (lightness: number) => dark ? Math.min(Math.max(lightness, 60), 82) : Math.min(Math.max(lightness, 40), 58);
+  const first = vivid[0] ?? candidates[0];
+  const accentChroma = Math.max(first.chroma, 0.12);
+  const accent = fromLch({ l: accentLightness(first.lightness), c: accentChroma, h: first.hue }, 'oklch');
+
+  const hueGap = (a: number, b: number) => Math.min(Math.abs(a - b), 360 - Math.abs(a - b));
+  const second = vivid.slice(1).find(entry => hueGap(entry.hue, first.hue) >= 40);
+  const secondaryAccent = second
+    ? fromLch({ l: accentLightness(second.lightness), c: Math.max(second.chroma, 0.1), h: second.hue }, 'oklch')
+    : PerceptualColor.from(accent, 'oklch').spin(180).toHexString();
+
+  const foreground = AdvancedColorOps.ensureReadability(
+    fromLch({ l: dark ? 90 : 25, c: 0.01, h: candidates[0].hue }, 'oklch'),
+    background,
+    7
+  );
+
+  return { kind: themeKind, background, surface, foreground, accent, secondaryAccent };
+}
@@ -0,0 +1,375 @@
+import tinycolor from 'tinycolor2';
+
+/**
+ * Color space that lightness, saturation and hue operations work in
+ *
+ * - hsl: tinycolor's HSL (the original behavior; uneven lightness across hues)
+ * - oklch: OKLab in polar form; equal steps look equally large for every hue
+ * - lch: CIELAB in polar form (D65)
+ */
+export type ColorSpace = 'hsl' | 'oklch' | 'lch';
+
+export const COLOR_SPACES: ColorSpace[] = ['hsl', 'oklch', 'lch'];
+
+/**
+ * Rectangular perceptual coordinates (OKLab: l 0-1; CIELAB: l 0-100)
+ */
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Polar perceptual coordinates; hue in degrees (0-360)
+ */
+export interface Lch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * RGB with 0-255 channels; values outside that range are out of gamut
+ */
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const D65 = { x: 0.95047, y: 1.0, z: 1.08883 };
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+/**
+ * sRGB channel (0-255) to linear light (0-1 in gamut)
+ */
+export function toLinear(channel: number): number {
+  const c = channel / 255;
+  const magnitude = Math.abs(c);
+  return magnitude <= 0.04045 ? c / 12.92 : Math.sign(c) * Math.pow((magnitude + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Linear light back to an sRGB channel (0-255 in gamut; not clamped or rounded)
+ */
+export function fromLinear(linear: number): number {
+  const magnitude = Math.abs(linear);
+  const c = magnitude <= 0.0031308 ? linear * 12.92 : Math.sign(linear) * (1.055 * Math.pow(magnitude, 1 / 2.4) - 0.055);
+  return c * 255;
+}
+
+/**
+ * Convert sRGB to OKLab (Björn Ottosson, 2020)
+ *
+ * @example
+ * rgbToOklab({ r: 255, g: 255, b: 255 }) // { l: 1, a: 0, b: 0 } (to 4 decimals)
+ */
+export function rgbToOklab(rgb: Rgb): Lab {
+  const r = toLinear(rgb.r);
+  const g = toLinear(rgb.g);
+  const b = toLinear(rgb.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  };
+}
+
+/**
+ * Convert OKLab to sRGB (unclamped)
+ */
+export function oklabToRgb(lab: Lab): Rgb {
+  const l = Math.pow(lab.l + 0.3963377774 * lab.a + 0.2158037573 * lab.b, 3);
+  const m = Math.pow(lab.l - 0.1055613458 * lab.a - 0.0638541728 * lab.b, 3);
+  const s = Math.pow(lab.l - 0.0894841775 * lab.a - 1.2914855480 * lab.b, 3);
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s),
+  };
+}
+
+/**
+ * Convert sRGB to CIELAB (D65)
+ *
+ * @example
+ * rgbToCielab({ r: 255, g: 0, b: 0 }) // { l: 53.24, a: 80.09, b: 67.2 } (rounded)
+ */
+export function rgbToCielab(rgb: Rgb): Lab {
+  const r = toLinear(rgb.r);
+  const g = toLinear(rgb.g);
+  const b = toLinear(rgb.b);
+
+  const f = (t: number) => (t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116);
+  const fx = f((0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / D65.x);
+  const fy = f((0.2126729 * r + 0.7151522 * g + 0.0721750 * b) / D65.y);
+  const fz = f((0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / D65.z);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Convert CIELAB (D65) to sRGB (unclamped)
+ */
+export function cielabToRgb(lab: Lab): Rgb {
+  const fy = (lab.l + 16) / 116;
+  const fx = lab.a / 500 + fy;
+  const fz = fy - lab.b / 200;
+
+  const finv = (t: number) => (Math.pow(t, 3) > LAB_EPSILON ? Math.pow(t, 3) : (116 * t - 16) / LAB_KAPPA);
+  const x = finv(fx) * D65.x;
+  const y = (lab.l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : lab.l / LAB_KAPPA) * D65.y;
+  const z = finv(fz) * D65.z;
+
+  return {
+    r: fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    g: fromLinear(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z),
+    b: fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  };
+}
+
+export function labToLch(lab: Lab): Lch {
+  const h = (Math.atan2(lab.b, lab.a) * 180) / Math.PI;
+  return { l: lab.l, c: Math.sqrt(lab.a * lab.a + lab.b * lab.b), h: h < 0 ? h + 360 : h };
+}
+
+export function lchToLab(lch: Lch): Lab {
+  const radians = (lch.h * Math.PI) / 180;
+  return { l: lch.l, a: lch.c * Math.cos(radians), b: lch.c * Math.sin(radians) };
+}
+
+/**
+ * Polar coordinates of a color in a perceptual space, with lightness on a
+ * 0-100 scale in both (OKLCH lightness is scaled up from 0-1)
+ */
+export function toLch(color: tinycolor.ColorInput, space: Exclude<ColorSpace, 'hsl'>): Lch {
+  const rgb = tinycolor(color).toRgb();
+  if (space === 'lch') {
+    return labToLch(rgbToCielab(rgb));
+  }
+  const lch = labToLch(rgbToOklab(rgb));
+  return { ...lch, l: lch.l * 100 };
+}
+
+function lchToRgb(lch: Lch, space: Exclude<ColorSpace, 'hsl'>): Rgb {
+  return space === 'lch'
+    ? cielabToRgb(lchToLab(lch))
+    : oklabToRgb(lchToLab({ ...lch, l: lch.l / 100 }));
+}
+
+function inGamut(rgb: Rgb): boolean {
+  const tolerance = 0.02;
+  return [rgb.r, rgb.g, rgb.b].every(channel => channel >= -tolerance && channel <= 255 + tolerance);
+}
+
+/**
+ * Bring polar coordinates into sRGB by reducing chroma, keeping lightness and hue
+ * (the CSS Color 4 approach, by binary search; lightness outside 0-100 gives black or white)
+ */
+export function mapToGamut(lch: Lch, space: Exclude<ColorSpace, 'hsl'>): Rgb {
+  if (lch.l >= 100) {
+    return { r: 255, g: 255, b: 255 };
+  }
+  if (lch.l <= 0) {
+    return { r: 0, g: 0, b: 0 };
+  }
+
+  let rgb = lchToRgb(lch, space);
+  if (!inGamut(rgb)) {
+    let low = 0;
+    let high = lch.c;
+    while (high - low > lch.c / 1000) {
+      const chroma = (low + high) / 2;
+      if (inGamut(lchToRgb({ ...lch, c: chroma }, space))) {
+        low = chroma;
+      } else {
+        high = chroma;
+      }
+    }
+    rgb = lchToRgb({ ...lch, c: low }, space);
+  }
+
+  const clamp = (channel: number) => Math.min(255, Math.max(0, channel));
+  return { r: clamp(rgb.r), g: clamp(rgb.g), b: clamp(rgb.b) };
+}
+
+/**
+ * Convert polar coordinates back to a color string, gamut-mapped
+ */
+export function fromLch(lch: Lch, space: Exclude<ColorSpace, 'hsl'>, alpha: number = 1): string {
+  const result = tinycolor({ ...mapToGamut(lch, space), a: alpha });
+  return alpha < 1 ? result.toHex8String() : result.toHexString();
+}
+
+/**
+ * A color that can be adjusted in HSL, OKLCH or CIE LCh
+ *
+ * Mirrors the chainable tinycolor methods the theme generators use, so they
+ * can switch color space without changing shape. Like tinycolor, methods
+ * change the color in place and return it; use clone() to branch. In the
+ * perceptual spaces the coordinates are kept unclamped between operations and
+ * only mapped into sRGB on output, so chained steps don't lose chroma early.
+ *
+ * Amounts follow tinycolor: lighten/darken move lightness by that many points
+ * (0-100), saturate/desaturate change chroma by that percentage (in HSL:
+ * saturation points), spin rotates hue by degrees.
+ *
+ * @example
+ * PerceptualColor.from('#ffff00', 'oklch').darken(20).toHexString() // "#bbbb01"
+ * PerceptualColor.from('#ffff00', 'hsl').darken(20).toHexString()   // "#999900", much darker to the eye
+ */
+export class PerceptualColor {
+  private constructor(
+    readonly space: ColorSpace,
+    private hsl: tinycolor.Instance,
+    private lch: Lch,
+    private alpha: number
+  ) {}
+
+  static from(color: tinycolor.ColorInput, space: ColorSpace = 'hsl'): PerceptualColor {
+    // tinycolor() hands back the same instance when given one, so copy it
+    const parsed = tinycolor(color);
+    const tc = parsed === color ? parsed.clone() : parsed;
+    const lch = space === 'hsl' ? { l: 0, c: 0, h: 0 } : toLch(tc, space);
+    return new PerceptualColor(space, tc, lch, tc.getAlpha());
+  }
+
+  clone(): PerceptualColor {
+    return new PerceptualColor(this.space, this.hsl.clone(), { ...this.lch }, this.alpha);
+  }
+
+  lighten(amount: number = 10): PerceptualColor {
+    if (this.space === 'hsl') {
+      this.hsl.lighten(amount);
+    } else {
+      this.lch.l = Math.min(100, this.lch.l + amount);
+    }
+    return this;
+  }
+
+  darken(amount: number = 10): PerceptualColor {
+    if (this.space === 'hsl') {
+      this.hsl.darken(amount);
+    } else {
+      this.lch.l = Math.max(0, this.lch.l - amount);
+    }
+    return this;
+  }
+
+  saturate(amount: number = 10): PerceptualColor {
+    if (this.space === 'hsl') {
+      this.hsl.saturate(amount);
+    } else {
+      this.lch.c *= 1 + amount / 100;
+    }
+    return this;
+  }
+
+  desaturate(amount: number = 10): PerceptualColor {
+    if (this.space === 'hsl') {
+      this.hsl.desaturate(amount);
+    } else {
+      this.lch.c *= Math.max(0, 1 - amount / 100);
+    }
+    return this;
+  }
+
+  spin(degrees: number): PerceptualColor {
+    if (this.space === 'hsl') {
+      this.hsl.spin(degrees);
+    } else {
+      this.lch.h = (((this.lch.h + degrees) % 360) + 360) % 360;
+    }
+    return this;
+  }
+
+  setAlpha(alpha: number): PerceptualColor {
+    this.hsl.setAlpha(alpha);
+    this.alpha = this.hsl.getAlpha();
+    return this;
+  }
+
+  /**
+   * Lightness (0-100) in this color's space
+   */
+  getLightness(): number {
+    return this.space === 'hsl' ? this.hsl.toHsl().l * 100 : this.lch.l;
+  }
+
+  setLightness(lightness: number): PerceptualColor {
+    const clamped = Math.min(100, Math.max(0, lightness));
+    if (this.space === 'hsl') {
+      this.hsl = tinycolor({ ...this.hsl.toHsl(), l: clamped / 100 });
+    } else {
+      this.lch.l = clamped;
+    }
+    return this;
+  }
+
+  /**
+   * Opaque hex string (alpha dropped, like tinycolor)
+   */
+  toHexString(): string {
+    return this.toTinycolor().toHexString();
+  }
+
+  /**
+   * Hex string with alpha (#rrggbbaa)
+   */
+  toHex8String(): string {
+    return this.toTinycolor().toHex8String();
+  }
+
+  toTinycolor(): tinycolor.Instance {
+    if (this.space === 'hsl') {
+      // Not clone(): that re-parses toString(), which rounds HSL input to whole percentages
+      return tinycolor(this.hsl.toRgb());
+    }
+    return tinycolor({ ...mapToGamut(this.lch, this.space), a: this.alpha });
+  }
+}
+
+/**
+ * Interpolate between two colors in a space
+ *
+ * 'hsl' mixes in sRGB (tinycolor.mix, the original gradient behavior); the
+ * perceptual spaces interpolate lightness, chroma and hue along the shorter
+ * arc. An achromatic end (grey) takes the other end's hue, so gradients to
+ * white or black don't swing through unrelated hues.
+ *
+ * @param start Start color
+ * @param end End color
+ * @param t Position between them (0-1)
+ * @param space Color space to interpolate in
+ */
+export function interpolate(start: string, end: string, t: number, space: ColorSpace = 'hsl'): string {
+  if (space === 'hsl') {
+    return tinycolor.mix(start, end, t * 100).toHexString();
+  }
+
+  const a = toLch(start, space);
+  const b = toLch(end, space);
+  const greyChroma = space === 'lch' ? 2 : 0.005;
+  const aHue = a.c < greyChroma ? b.h : a.h;
+  const bHue = b.c < greyChroma ? a.h : b.h;
+  let delta = bHue - aHue;
+  if (delta > 180) {
+    delta -= 360;
+  } else if (delta < -180) {
+    delta += 360;
+  }
+
+  return fromLch({
+    l: a.l + (b.l - a.l) * t,
+    c: a.c + (b.c - a.c) * t,
+    h: (((aHue + delta * t) % 360) + 360) % 360,
+  }, space);
+}
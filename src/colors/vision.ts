@@ -0,0 +1,312 @@
+import tinycolor from 'tinycolor2';
+import type { ColorMap } from './groups';
+import { ColorManipulator } from './manipulation';
+import { fromLinear, toLinear } from './spaces';
+import { colorDifference } from './difference';
+
+/**
+ * Color vision deficiencies that can be simulated
+ * (protanopia: no red cones, deuteranopia: no green cones, tritanopia: no blue
+ * cones, achromatopsia: no color vision at all)
+ */
+export type VisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export const VISION_DEFICIENCIES: VisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'];
+
+/**
+ * Deficiencies checked unless others are asked for: the dichromacies. Achromatopsia
+ * is rare, and most stock themes tell red from blue by hue alone.
+ */
+export const DEFAULT_CHECKED_DEFICIENCIES: VisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+/**
+ * Smallest simulated Delta E (CIEDE2000) at which two semantic colors still read as different
+ */
+export const DEFAULT_MINIMUM_DELTA_E = 10;
+
+/**
+ * Machado, Oliveira & Fernandes (2009) simulation matrices at full severity,
+ * applied to linear RGB. Achromatopsia maps every channel to relative luminance.
+ */
+const SIMULATION_MATRICES: Record<VisionDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.011820, 0.042940, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.303900],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+/**
+ * Keys that mean different things and must stay apart for every viewer
+ */
+export interface DistinctSet {
+  id: string;
+  description: string;
+  keys: string[];                      // In priority order: fixes adjust later keys, not earlier ones
+  base: string;                        // Surface the colors are drawn on (translucent colors are composited onto it)
+}
+
+export const DISTINCT_SETS: DistinctSet[] = [
+  {
+    id: 'git',
+    description: 'Git added/modified/deleted files',
+    keys: ['gitDecoration.addedResourceForeground', 'gitDecoration.modifiedResourceForeground', 'gitDecoration.deletedResourceForeground'],
+    base: 'sideBar.background',
+  },
+  {
+    id: 'diagnostics',
+    description: 'Errors, warnings and info',
+    keys: ['editorError.foreground', 'editorWarning.foreground', 'editorInfo.foreground'],
+    base: 'editor.background',
+  },
+  {
+    id: 'diff',
+    description: 'Inserted and removed text in diffs',
+    keys: ['diffEditor.insertedTextBackground', 'diffEditor.removedTextBackground'],
+    base: 'editor.background',
+  },
+  {
+    id: 'gutter',
+    description: 'Added, modified and deleted lines in the editor gutter',
+    keys: ['editorGutter.addedBackground', 'editorGutter.modifiedBackground', 'editorGutter.deletedBackground'],
+    base: 'editor.background',
+  },
+  {
+    id: 'terminal',
+    description: 'Terminal red, green and yellow (test and build output)',
+    keys: ['terminal.ansiGreen', 'terminal.ansiRed', 'terminal.ansiYellow'],
+    base: 'terminal.background',
+  },
+];
+
+/**
+ * Two keys of a set that some viewers can't tell apart
+ */
+export interface DistinguishabilityIssue {
+  set: string;
+  description: string;
+  keys: [string, string];
+  values: [string, string];            // Effective values (before compositing)
+  deltaE: number;                      // Lowest simulated Delta E, rounded to 1 decimal
+  deficiency: VisionDeficiency;        // Deficiency the lowest Delta E was seen with
+  failsFor: VisionDeficiency[];        // Every checked deficiency below the minimum
+}
+
+/**
+ * Result of checking a set of colors
+ */
+export interface DistinguishabilityReport {
+  minimumDeltaE: number;
+  deficiencies: VisionDeficiency[];
+  checked: number;                     // Key pairs checked
+  issues: DistinguishabilityIssue[];
+  fixes: ColorMap;                     // Suggested new values (later key of each failing pair)
+  unresolved: string[];                // Keys no hue or lightness change could separate (no fix suggested)
+  skipped: { set: string; missing: string[] }[];  // Sets with fewer than two known colors
+}
+
+function toChannel(linear: number): number {
+  return Math.round(fromLinear(Math.min(1, Math.max(0, linear))));
+}
+
+/**
+ * Show a color as a viewer with a color vision deficiency sees it
+ *
+ * @param color Hex color string (alpha is kept)
+ * @param deficiency Deficiency to simulate
+ * @param severity 0 (normal vision) to 1 (full deficiency, default); partial
+ * severities interpolate between normal vision and the full matrix
+ * @returns Simulated hex color string, or the input if it is not a valid color
+ *
+ * @example
+ * simulateColor('#ff0000', 'deuteranopia')  // Returns "#a39000" (red reads as olive)
+ * simulateColor('#ff0000', 'achromatopsia') // Returns "#7f7f7f"
+ */
+export function simulateColor(color: string, deficiency: VisionDeficiency, severity: number = 1): string {
+  const tc = tinycolor(color);
+  if (!tc.isValid()) {
+    return color;
+  }
+
+  const { r, g, b, a } = tc.toRgb();
+  const linear = [toLinear(r), toLinear(g), toLinear(b)];
+  const amount = Math.min(1, Math.max(0, severity));
+  const [sr, sg, sb] = SIMULATION_MATRICES[deficiency].map((row, i) => {
+    const simulated = row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2];
+    return toChannel(linear[i] + (simulated - linear[i]) * amount);
+  });
+
+  const result = tinycolor({ r: sr, g: sg, b: sb, a });
+  return a < 1 ? result.toHex8String() : result.toHexString();
+}
+
+/**
+ * Simulate every color of a palette (invalid values are left out)
+ */
+export function simulatePalette(colors: ColorMap, deficiency: VisionDeficiency, severity: number = 1): ColorMap {
+  const simulated: ColorMap = {};
+  for (const [key, value] of Object.entries(colors)) {
+    if (tinycolor(value).isValid()) {
+      simulated[key] = simulateColor(value, deficiency, severity);
+    }
+  }
+  return simulated;
+}
+
+/**
+ * Lowest Delta E between two colors across deficiencies, composited onto a base
+ */
+function worstDeltaE(
+  color1: string,
+  color2: string,
+  base: string,
+  deficiencies: VisionDeficiency[]
+): { deltaE: number; deficiency: VisionDeficiency; failsFor: (minimum: number) => VisionDeficiency[] } {
+  const manipulator = new ColorManipulator();
+  const flat1 = manipulator.composite(color1, base);
+  const flat2 = manipulator.composite(color2, base);
+  const distances = deficiencies.map(deficiency => ({
+    deficiency,
+    deltaE: colorDifference(simulateColor(flat1, deficiency), simulateColor(flat2, deficiency)),
+  }));
+  const worst = distances.reduce((a, b) => (b.deltaE < a.deltaE ? b : a));
+  return {
+    ...worst,
+    failsFor: minimum => distances.filter(d => d.deltaE < minimum).map(d => d.deficiency),
+  };
+}
+
+/**
+ * Find the smallest change to a color that sets it apart from the others
+ *
+ * Tries hue rotations and lightness steps (lightness survives every deficiency),
+ * keeping the candidate that looks closest to the original under normal vision.
+ *
+ * @returns The new value, or undefined if no candidate reaches the minimum
+ */
+function separateColor(
+  color: string,
+  others: string[],
+  base: string,
+  deficiencies: VisionDeficiency[],
+  minimumDeltaE: number
+): string | undefined {
+  const manipulator = new ColorManipulator();
+  const original = tinycolor(color);
+  const originalFlat = manipulator.composite(color, base);
+  // How each deficiency sees the other colors, computed once for every candidate
+  const othersSeen = deficiencies.map(deficiency =>
+    others.map(other => simulateColor(manipulator.composite(other, base), deficiency))
+  );
+  let best: { value: string; cost: number } | undefined;
+
+  for (let hue = -165; hue <= 180; hue += 15) {
+    for (let lightness = -30; lightness <= 30; lightness += 5) {
+      const candidate = original.clone().spin(hue);
+      if (lightness > 0) {
+        candidate.lighten(lightness);
+      } else if (lightness < 0) {
+        candidate.darken(-lightness);
+      }
+      const value = original.getAlpha() < 1 ? candidate.toHex8String() : candidate.toHexString();
+      const flat = manipulator.composite(value, base);
+      const cost = colorDifference(originalFlat, flat);
+      if (best && cost >= best.cost) {
+        continue;
+      }
+
+      const separated = deficiencies.every((deficiency, d) => {
+        const seen = simulateColor(flat, deficiency);
+        return othersSeen[d].every(other => colorDifference(seen, other) >= minimumDeltaE);
+      });
+      if (separated) {
+        best = { value, cost };
+      }
+    }
+  }
+
+  return best?.value;
+}
+
+/**
+ * Check that semantically distinct keys stay distinguishable for colorblind viewers
+ *
+ * Every pair of keys in a set is composited onto the set's base (black if the
+ * base is unknown), simulated for each deficiency and compared by Delta E. For
+ * each failing pair, the later key gets a suggested value; later pairs are
+ * checked against the suggestions already made. Very translucent colors (diff
+ * backgrounds) may not be separable by hue and lightness alone.
+ *
+ * @param colors Effective colors (customizations, theme and defaults merged)
+ * @param deficiencies Deficiencies to check (default: DEFAULT_CHECKED_DEFICIENCIES)
+ * @param minimumDeltaE Smallest acceptable simulated Delta E
+ * @param sets Key sets to check (default: DISTINCT_SETS)
+ */
+export function checkDistinguishability(
+  colors: ColorMap,
+  deficiencies: VisionDeficiency[] = DEFAULT_CHECKED_DEFICIENCIES,
+  minimumDeltaE: number = DEFAULT_MINIMUM_DELTA_E,
+  sets: DistinctSet[] = DISTINCT_SETS
+): DistinguishabilityReport {
+  const manipulator = new ColorManipulator();
+  const issues: DistinguishabilityIssue[] = [];
+  const fixes: ColorMap = {};
+  const unresolved: string[] = [];
+  const skipped: DistinguishabilityReport['skipped'] = [];
+  let checked = 0;
+
+  for (const set of sets) {
+    const known = set.keys.filter(key => colors[key] && manipulator.isValidColor(colors[key]));
+    if (known.length < 2) {
+      skipped.push({ set: set.id, missing: set.keys.filter(key => !known.includes(key)) });
+      continue;
+    }
+
+    const base = (colors[set.base] && manipulator.isValidColor(colors[set.base])) ? colors[set.base] : '#000000';
+    for (let j = 1; j < known.length; j++) {
+      for (let i = 0; i < j; i++) {
+        checked++;
+        const current = { ...colors, ...fixes };
+        const result = worstDeltaE(current[known[i]], current[known[j]], base, deficiencies);
+        if (result.deltaE >= minimumDeltaE) {
+          continue;
+        }
+
+        issues.push({
+          set: set.id,
+          description: set.description,
+          keys: [known[i], known[j]],
+          values: [colors[known[i]], colors[known[j]]],
+          deltaE: Math.round(result.deltaE * 10) / 10,
+          deficiency: result.deficiency,
+          failsFor: result.failsFor(minimumDeltaE),
+        });
+
+        const others = known.filter(key => key !== known[j]).map(key => current[key]);
+        const separated = separateColor(colors[known[j]], others, base, deficiencies, minimumDeltaE);
+        if (separated) {
+          fixes[known[j]] = separated;
+        } else if (!unresolved.includes(known[j])) {
+          unresolved.push(known[j]);
+        }
+      }
+    }
+  }
+
+  return { minimumDeltaE, deficiencies, checked, issues, fixes, unresolved, skipped };
+}
@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { BridgeServer } from './bridge/server';
 import { AudioPlayerProvider } from './audio/AudioPlayerProvider';
 import { ReactiveThemeController } from './audio/ReactiveThemeController';
+import { VSCodeConfig } from './vscode/config';
+import { ThemeColorResolver } from './vscode/themeColors';
+import { ThemeExporter } from './themes/ThemeExporter';
 
 let bridgeServer: BridgeServer | undefined;
 let reactiveController: ReactiveThemeController | undefined;
@@ -16,11 +20,16 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Initialize HTTP bridge server in extension host
   // This runs in the parent process and handles HTTP requests from MCP server (child)
-  bridgeServer = new BridgeServer();
+  // The random token is only shared with the MCP server we spawn, so other local
+  // processes can't drive the bridge
+  const bridgeToken = crypto.randomBytes(32).toString('hex');
+  bridgeServer = new BridgeServer(context, bridgeToken);
   console.log('8b-Theme-MCP bridge server initialized');
 
   // Initialize audio-reactive theme controller
-  reactiveController = new ReactiveThemeController();
+  const themeColors = new ThemeColorResolver();
+  context.subscriptions.push(themeColors);
+  reactiveController = new ReactiveThemeController(themeColors);
 
   // Register audio player webview
   const audioPlayerProvider = new AudioPlayerProvider(
@@ -72,8 +81,9 @@ export async function activate(context: vscode.ExtensionContext) {
             'node', // Command to execute
             [serverPath], // Arguments (path to our standalone server)
             {
-              // Pass bridge port to child process
-              BRIDGE_PORT: String(bridgePort)
+              // Pass bridge port and session secret to child process
+              BRIDGE_PORT: String(bridgePort),
+              BRIDGE_TOKEN: bridgeToken
             }
           ),
         ];
@@ -110,6 +120,90 @@ export async function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(statusCommand);
 
+  // Export current customizations as a shareable color theme
+  const exportCommand = vscode.commands.registerCommand(
+    '8b-theme-mcp.exportTheme',
+    async () => {
+      const name = await vscode.window.showInputBox({
+        prompt: 'Theme name',
+        value: 'My 8b Theme',
+      });
+      if (!name) {
+        return;
+      }
+
+      const format = await vscode.window.showQuickPick(
+        ['Theme file (*-color-theme.json)', 'Theme extension folder'],
+        { placeHolder: 'What should be exported?' }
+      );
+      if (!format) {
+        return;
+      }
+
+      const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: 'Export Here',
+      });
+      if (!folders || folders.length === 0) {
+        return;
+      }
+
+      const config = new VSCodeConfig();
+      const theme = ThemeExporter.buildTheme(
+        name,
+        config.getActiveThemeInfo().kind,
+        await config.getCurrentColors(),
+        await config.getTokenColors()
+      );
+
+      try {
+        const outputFolder = folders[0].fsPath;
+        const written = format.startsWith('Theme extension')
+          ? (await ThemeExporter.scaffoldExtension(theme, outputFolder)).folder
+          : await ThemeExporter.writeTheme(theme, outputFolder);
+        vscode.window.showInformationMessage(`🎨 Exported "${theme.name}" to ${written}`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Theme export failed: ${errorMsg}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(exportCommand);
+
+  // Keep or revert a temporary color preview started by an AI assistant
+  const confirmPreviewCommand = vscode.commands.registerCommand(
+    '8b-theme-mcp.confirmPreview',
+    async () => {
+      try {
+        const changes = await bridgeServer!.confirmPreview();
+        vscode.window.showInformationMessage(`🎨 Kept ${changes.length} previewed colors`);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        vscode.window.showWarningMessage(errorMsg);
+      }
+    }
+  );
+
+  const cancelPreviewCommand = vscode.commands.registerCommand(
+    '8b-theme-mcp.cancelPreview',
+    async () => {
+      try {
+        const changes = await bridgeServer!.cancelPreview();
+        vscode.window.showInformationMessage(
+          changes.length > 0 ? `Reverted ${changes.length} previewed colors` : 'No color preview is running'
+        );
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        vscode.window.showWarningMessage(errorMsg);
+      }
+    }
+  );
+
+  context.subscriptions.push(confirmPreviewCommand, cancelPreviewCommand);
+
   // Show a welcome notification on first install (only once)
   const hasShownWelcome = context.globalState.get('8b-theme-mcp.welcomeShown', false);
   if (!hasShownWelcome) {
@@ -140,8 +234,11 @@ export async function deactivate() {
     reactiveController = undefined;
   }
 
-  // Stop bridge server
+  // Stop bridge server (reverting any unconfirmed preview first)
   if (bridgeServer) {
+    await bridgeServer.cancelPreview().catch(error => {
+      console.error('8b-Theme-MCP failed to revert color preview:', error);
+    });
     await bridgeServer.stop();
     bridgeServer = undefined;
   }
@@ -0,0 +1,221 @@
+/**
+ * Prompt templates for common theming workflows
+ *
+ * Served through the MCP prompts capability by the standalone server. Each
+ * prompt expands into one user message that walks the assistant through the
+ * existing tools step by step, naming the color groups from
+ * data/color-groups.json it should touch. No vscode dependency.
+ */
+
+import type { ColorGroups } from '../colors/groups';
+
+/**
+ * A prompt argument (MCP prompt arguments are always strings)
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * A prompt as advertised by prompts/list
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/**
+ * An expanded prompt, as returned by prompts/get
+ */
+export interface ExpandedPrompt {
+  description: string;
+  messages: { role: 'user'; content: { type: 'text'; text: string } }[];
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'brand-theme',
+    description: 'Build an accessible theme around a brand color, check contrast and save it as a snapshot',
+    arguments: [
+      { name: 'brandColor', description: 'Brand color in hex format (e.g., "#5b2bd1")', required: true },
+      { name: 'kind', description: '"dark" or "light" (default: dark)' },
+      { name: 'harmony', description: 'Harmony for the accent colors: analogous, complementary, triadic, tetradic, split-complementary or square (default: analogous)' },
+      { name: 'snapshotName', description: 'Name to save the finished theme under (default: "brand-<color>")' },
+    ],
+  },
+  {
+    name: 'accessibility-audit',
+    description: 'Check text/background contrast across color groups and offer fixes',
+    arguments: [
+      { name: 'level', description: '"AA" (4.5:1) or "AAA" (7:1) (default: AA)' },
+      { name: 'algorithm', description: '"wcag2" or "apca" (APCA is stricter and more accurate on dark themes; default: wcag2)' },
+      { name: 'groups', description: 'Comma-separated color groups to audit (default: all)' },
+    ],
+  },
+  {
+    name: 'match-wallpaper-palette',
+    description: 'Theme the editor to match colors taken from a wallpaper or image',
+    arguments: [
+      { name: 'colors', description: 'Comma-separated hex colors from the wallpaper, most dominant first (or give imagePath)' },
+      { name: 'imagePath', description: 'Absolute path of the wallpaper (PNG or JPEG), to read its colors from' },
+      { name: 'description', description: 'What the wallpaper looks like (helps pick a mood)' },
+    ],
+  },
+  {
+    name: 'presentation-mode',
+    description: 'Make the theme readable on a projector or screen share, with an easy way back',
+    arguments: [
+      { name: 'room', description: '"bright" or "dim" (default: bright)' },
+      { name: 'snapshotName', description: 'Snapshot to save the current theme under first (default: "before-presentation")' },
+    ],
+  },
+];
+
+/**
+ * Keys of the given groups, as a bullet list for the prompt text
+ */
+function describeGroups(colorGroups: ColorGroups, groupIds: string[]): string {
+  return groupIds
+    .filter(id => colorGroups[id])
+    .map(id => `- ${id} (${colorGroups[id].name}): ${colorGroups[id].keys.join(', ')}`)
+    .join('\n');
+}
+
+/**
+ * Parse a comma-separated argument, dropping empty entries
+ */
+function splitList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function requireArgument(args: Record<string, string>, name: string, prompt: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new Error(`Missing required argument for ${prompt}: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Expand a prompt with its arguments
+ *
+ * @param name Prompt name from PROMPTS
+ * @param args Prompt arguments (all strings)
+ * @param colorGroups Semantic color groups, for the key lists in the instructions
+ * @throws Error if the prompt is unknown or a required argument is missing
+ */
+export function expandPrompt(name: string, args: Record<string, string>, colorGroups: ColorGroups): ExpandedPrompt {
+  const definition = PROMPTS.find(prompt => prompt.name === name);
+  if (!definition) {
+    throw new Error(`Unknown prompt: ${name}. Available prompts: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+
+  let text: string;
+  switch (name) {
+    case 'brand-theme': {
+      const brandColor = requireArgument(args, 'brandColor', name);
+      const kind = args.kind === 'light' ? 'light' : 'dark';
+      const harmony = args.harmony || 'analogous';
+      const snapshotName = args.snapshotName || `brand-${brandColor.replace(/^#/, '')}`;
+      text = [
+        `Build an accessible ${kind} VS Code theme from our brand color ${brandColor}.`,
+        '',
+        '1. Call saveSnapshot with name "before-brand-theme" and overwrite: true, so the current colors can be restored.',
+        `2. Call generateColorHarmony with baseColor "${brandColor}" and harmonyType "${harmony}" to get accent colors.`,
+        `3. Pick ${kind} background shades tinted toward the brand hue and foregrounds that contrast with them. Use the brand color for accents (focus borders, active indicators, buttons, the status bar).`,
+        '4. Run every foreground/background pair through ensureReadableColor (targetRatio 4.5) and use the adjusted foreground it returns.',
+        '5. Apply everything at once with applyTransaction (one set operation per key), so it can be undone in one step. Cover these groups:',
+        describeGroups(colorGroups, ['editor', 'sidebar', 'statusBar', 'terminal', 'notifications']),
+        `6. Call saveSnapshot with name "${snapshotName}" and a short description.`,
+        '7. Summarise the palette and any contrast adjustments you made.',
+      ].join('\n');
+      break;
+    }
+
+    case 'accessibility-audit': {
+      const level = args.level?.toUpperCase() === 'AAA' ? 'AAA' : 'AA';
+      const ratio = level === 'AAA' ? 7 : 4.5;
+      const apca = args.algorithm?.toLowerCase() === 'apca';
+      const requested = splitList(args.groups);
+      const groupIds = requested.length > 0 ? requested : Object.keys(colorGroups);
+      const unknown = groupIds.filter(id => !colorGroups[id]);
+      if (unknown.length > 0) {
+        throw new Error(`Unknown color group: ${unknown.join(', ')}. Available groups: ${Object.keys(colorGroups).join(', ')}`);
+      }
+      const check = apca
+        ? `call ensureReadableColor with algorithm "apca" and usage "bodyText" for editor and terminal text, "uiLabel" for other text and "nonText" for cursors, icons and borders${level === 'AAA' ? ', with targetRatio 15 above the usage level' : ''}, and note the current Lc and the suggested foreground`
+        : `call ensureReadableColor with targetRatio ${ratio} and note the current ratio and the suggested foreground`;
+      text = [
+        apca
+          ? `Audit the current VS Code theme for APCA ${level} contrast (Lc 75 for body text, 60 for UI labels, 30 for non-text${level === 'AAA' ? ', plus 15' : ''}).`
+          : `Audit the current VS Code theme for WCAG ${level} contrast (${ratio}:1 for text).`,
+        '',
+        '1. Call getColorsInGroup for each of these groups and use the effectiveValue of each key (customizations, else the theme, else VS Code defaults):',
+        describeGroups(colorGroups, groupIds),
+        '2. Pair each foreground key with the background it is drawn on (e.g. editor.foreground on editor.background, statusBar.foreground on statusBar.background, terminal ANSI colors on terminal.background).',
+        `3. For every pair, ${check}.`,
+        `4. Report a table of pairs: key, background, ${apca ? 'Lc' : 'ratio'}, pass/fail.`,
+        '5. Offer to fix the failures. If I agree, try them first with previewColors, then apply them with applyTransaction once I confirm.',
+      ].join('\n');
+      break;
+    }
+
+    case 'match-wallpaper-palette': {
+      const imagePath = args.imagePath?.trim();
+      const colors = imagePath ? splitList(args.colors) : splitList(requireArgument(args, 'colors', name));
+      const description = args.description ? ` The wallpaper: ${args.description}.` : '';
+      if (imagePath && colors.length === 0) {
+        text = [
+          `Theme VS Code to match my wallpaper at ${imagePath}.${description}`,
+          '',
+          '1. Call saveSnapshot with name "before-wallpaper" and overwrite: true.',
+          `2. Call extractPaletteFromImage with path "${imagePath}" and describe the palette and suggested roles in a sentence.`,
+          `3. Call themeFromImage with path "${imagePath}" (kind "light" if the wallpaper is mostly light) to apply it.`,
+          '4. Call auditAccessibility and fix any failures it reports with autoFix: true.',
+          '5. Tell me I can go back with restoreSnapshot "before-wallpaper".',
+        ].join('\n');
+        break;
+      }
+      text = [
+        `Theme VS Code to match my wallpaper, whose main colors are ${colors.join(', ')} (most dominant first).${description}`,
+        '',
+        '1. Call saveSnapshot with name "before-wallpaper" and overwrite: true.',
+        '2. Call listMoodPresets. If one is close to this palette, say which and why before using it as a starting point with applyMoodPreset.',
+        `3. Use the darkest dominant color as the base for backgrounds and the most saturated one as the accent. Call generateColorHarmony with baseColor "${colors[0]}" and harmonyType "analogous" if more accents are needed.`,
+        '4. Check every text color against its background with ensureReadableColor (targetRatio 4.5).',
+        '5. Show it with previewColors first, and apply it with applyTransaction once I confirm. Cover these groups:',
+        describeGroups(colorGroups, ['editor', 'sidebar', 'statusBar', 'terminal', 'chat']),
+      ].join('\n');
+      break;
+    }
+
+    case 'presentation-mode': {
+      const bright = args.room !== 'dim';
+      const snapshotName = args.snapshotName || 'before-presentation';
+      text = [
+        `Switch VS Code to presentation mode for a ${bright ? 'bright room (projectors wash out dark themes)' : 'dim room'}.`,
+        '',
+        `1. Call saveSnapshot with name "${snapshotName}" and overwrite: true.`,
+        bright
+          ? '2. Call applyMoodPreset with variant "light" (or "highContrastLight" for a very bright room), or raise background lightness and darken foregrounds if I want to keep the current theme.'
+          : '2. Keep a dark base, but deepen backgrounds and brighten foregrounds.',
+        '3. Run every foreground/background pair through ensureReadableColor with targetRatio 7 (AAA); projectors and video compression lose contrast.',
+        '4. Make the cursor, selection and line highlight stand out so the audience can follow along. Apply all changes with applyTransaction. Cover these groups:',
+        describeGroups(colorGroups, ['editor', 'terminal', 'statusBar']),
+        `5. Tell me to run restoreSnapshot with name "${snapshotName}" when the presentation is over.`,
+      ].join('\n');
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  return {
+    description: definition.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
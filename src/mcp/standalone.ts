@@ -14,7 +14,7 @@
  * - Extension host makes actual VSCode API calls on our behalf
  *
  * Key Features:
- * - 5 MCP tools for theme color manipulation
+ * - MCP tools for theme colors, moods, syntax colors, snapshots and history
  * - Color validation before setting values
  * - Semantic color groups for intuitive control
  * - Comprehensive error handling and logging
@@ -22,18 +22,334 @@
  * This is spawned by the extension when GitHub Copilot requests the MCP server.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { BridgeClient } from '../bridge/client';
-import { ColorManipulator } from '../colors/manipulation';
+import type { BridgeEvent, ColorScope, ConfigurationTarget, EffectiveColors, HistoryEntry, TransactionOperation } from '../bridge/protocol';
+import { APCA_THRESHOLDS, ApcaUsage, ColorManipulator, ContrastAlgorithm } from '../colors/manipulation';
 import { AdvancedColorOps } from '../colors/advanced';
-import { MoodPresetsManager } from '../themes/MoodPresets';
+import { COLOR_SPACES, ColorSpace } from '../colors/spaces';
+import { DEFAULT_PALETTE_SIZE, PaletteColor, assignRoles, decodeImage, extractPalette } from '../colors/palette';
+import { DEFAULT_DUPLICATE_DELTA_E, DELTA_E_METHODS, DeltaEMethod, SURFACE_KEYS, findNearDuplicates, separateSurfaces } from '../colors/difference';
+import { DISTINCT_SETS, VISION_DEFICIENCIES, VisionDeficiency, checkDistinguishability, simulatePalette } from '../colors/vision';
+import { CONTRAST_PAIRS, PolicyCheck, WcagLevel, auditContrast, checkContrastPolicy, fixContrast, keysOfPairs, pairsInvolving } from '../colors/accessibility';
+import { MOOD_ROLES, MOOD_VARIANTS, MoodPreset, MoodPresetsManager, MoodRole, MoodRoles, MoodVariant, SemanticTokenRules, TokenColorRule } from '../themes/MoodPresets';
+import { ThemeExporter } from '../themes/ThemeExporter';
+import { ThemeLoader } from '../themes/ThemeLoader';
 import * as colorGroupsData from '../../data/color-groups.json';
-import { ColorGroups } from '../colors/groups';
+import { ColorGroups, ColorMap } from '../colors/groups';
+import { PROMPTS, expandPrompt } from './prompts';
+import type { ThemeChange } from './types';
+
+/**
+ * JSON schema for the optional configuration target accepted by write tools
+ */
+const TARGET_SCHEMA = {
+  type: 'string',
+  enum: ['Global', 'Workspace', 'WorkspaceFolder'],
+  description: 'Settings scope (default: "Global" = user settings)',
+};
+
+/**
+ * JSON schema for the optional workspace folder accepted alongside TARGET_SCHEMA
+ */
+const FOLDER_URI_SCHEMA = {
+  type: 'string',
+  description: 'Workspace folder URI or absolute path, for the WorkspaceFolder target in a multi-root workspace',
+};
+
+/**
+ * JSON schema for the optional "[Theme Name]" block accepted by color tools
+ */
+const THEME_SCOPE_SCHEMA = {
+  type: 'string',
+  description: 'Only apply to this base theme, e.g. "Default Dark+" or "[Monokai][Solarized Dark]" (writes a "[Theme Name]" block; "*" wildcards allowed). Default: unscoped',
+};
+
+/**
+ * JSON schema for the color space accepted by generator tools
+ */
+const COLOR_SPACE_SCHEMA = {
+  type: 'string',
+  enum: COLOR_SPACES,
+  description: 'Color space to derive colors in: hsl (default), oklch (perceptually even lightness across hues, gamut-mapped to sRGB) or lch (CIE LCh)',
+};
+
+/**
+ * JSON schema for the theme kind accepted by mood tools
+ */
+const VARIANT_SCHEMA = {
+  type: 'string',
+  enum: MOOD_VARIANTS,
+  description: 'Generate for this kind of theme: dark, light (light surfaces, dark text), highContrastDark or highContrastLight (default: the kind of the active theme)',
+};
+
+/**
+ * JSON schema for the contrast algorithm accepted by contrast tools
+ */
+const ALGORITHM_SCHEMA = {
+  type: 'string',
+  enum: ['wcag2', 'apca'],
+  description: 'wcag2 = WCAG 2.x contrast ratio; apca = APCA lightness contrast (Lc), polarity-aware and more accurate for dark themes (default: wcag2)',
+};
+
+/**
+ * JSON schema for the color difference formula accepted by comparison tools
+ */
+const DELTA_E_METHOD_SCHEMA = {
+  type: 'string',
+  enum: DELTA_E_METHODS,
+  description: 'ciede2000 = CIE Delta E 2000 (default); oklab = distance in OKLab, times 100. On both, about 1-2 is barely visible side by side',
+};
+
+/**
+ * What each mood role colors, for the createCustomMood schema
+ */
+const ROLE_DESCRIPTIONS: Record<MoodRole, string> = {
+  background: 'Editor and terminal background',
+  surface: 'Sidebar, activity bar and status bar background',
+  foreground: 'Text',
+  primary: 'Main brand color: buttons, cursor, focus and active borders, selection',
+  secondary: 'Sidebar titles, active line number, slash commands',
+  accent: 'Links, badges, find matches',
+  danger: 'Errors and deleted files',
+  warning: 'Warnings and modified files',
+  success: 'Added files and lines',
+};
+
+/**
+ * Resources mirroring live state in the extension host; clients can subscribe
+ * to be told when they change
+ */
+const RESOURCES = [
+  {
+    uri: 'theme://current/colors',
+    name: 'Current colors',
+    description: 'Color customizations applied to the active theme (all settings levels merged)',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'theme://current/token-colors',
+    name: 'Current token colors',
+    description: 'TextMate and semantic token color customizations',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'theme://active-theme',
+    name: 'Active theme',
+    description: 'Name and kind of the active base color theme',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Parameterised resources; every concrete instance is also listed by resources/list
+ */
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'theme://groups/{group}',
+    name: 'Color group',
+    description: 'Custom and effective values of every key in a semantic color group',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'theme://presets/{name}',
+    name: 'Mood preset',
+    description: 'A mood preset with its generated workbench and syntax colors',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'theme://snapshots/{name}',
+    name: 'Snapshot',
+    description: 'A saved snapshot with its colors',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Build the URI of a templated resource (names are percent-encoded)
+ */
+function resourceUri(kind: 'groups' | 'presets' | 'snapshots', name: string): string {
+  return `theme://${kind}/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Check whether a bridge event may have changed a resource's content
+ * (switching theme changes which "[Theme Name]" blocks apply and the effective
+ * values of every group)
+ */
+function isAffectedBy(uri: string, event: BridgeEvent): boolean {
+  switch (event.type) {
+    case 'themeChanged':
+      return RESOURCES.some(resource => resource.uri === uri) || uri.startsWith('theme://groups/');
+    case 'colorsChanged':
+      if (uri === 'theme://current/colors' || uri.startsWith('theme://groups/')) {
+        return event.settings.includes('workbench.colorCustomizations');
+      }
+      return uri === 'theme://current/token-colors'
+        && event.settings.some(setting => setting !== 'workbench.colorCustomizations');
+    case 'snapshotsChanged':
+      return uri === resourceUri('snapshots', event.name);
+    case 'moodPresetsChanged':
+      return uri.startsWith('theme://presets/');
+    case 'customMoodsChanged':
+      return uri === resourceUri('presets', event.name);
+  }
+}
+
+/**
+ * Validate an optional colorSpace argument
+ */
+function parseColorSpace(value: unknown): ColorSpace | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!COLOR_SPACES.includes(value as ColorSpace)) {
+    throw new Error(`Unknown color space: ${value}. Use one of: ${COLOR_SPACES.join(', ')}`);
+  }
+  return value as ColorSpace;
+}
+
+/**
+ * Validate an optional variant argument
+ */
+function parseVariant(value: unknown): MoodVariant | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!MOOD_VARIANTS.includes(value as MoodVariant)) {
+    throw new Error(`Unknown variant: ${value}. Use one of: ${MOOD_VARIANTS.join(', ')}`);
+  }
+  return value as MoodVariant;
+}
+
+/**
+ * Refuse a mood whose explicit role colors can't be read on each other
+ */
+function assertRoleContrast(preset: MoodPreset): void {
+  const issues = MoodPresetsManager.checkRoleContrast(preset);
+  if (issues.length > 0) {
+    const details = issues.map(i => `${i.role} on ${i.against} is ${i.ratio}:1 (needs ${i.required}:1; try ${i.suggestion})`);
+    throw new Error(`Role colors don't contrast enough: ${details.join('; ')}`);
+  }
+}
+
+/**
+ * Refuse a custom mood name that would hide a built-in preset
+ */
+function assertCustomMoodName(name: string): void {
+  if (MoodPresetsManager.isBuiltIn(name)) {
+    throw new Error(`"${name}" is a built-in mood preset. Choose another name for the custom mood`);
+  }
+}
+
+/**
+ * Tool arguments kept with a saved custom mood (its name is stored on its own)
+ */
+function moodArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).filter(([key]) => key !== 'name' && key !== 'newName' && key !== 'apply'));
+}
+
+/**
+ * Validate an optional Delta E method argument
+ */
+function parseDeltaEMethod(value: unknown): DeltaEMethod | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!DELTA_E_METHODS.includes(value as DeltaEMethod)) {
+    throw new Error(`Unknown Delta E method: ${value}. Use one of: ${DELTA_E_METHODS.join(', ')}`);
+  }
+  return value as DeltaEMethod;
+}
+
+/**
+ * Read a PNG or JPEG file and find its dominant colors
+ */
+async function readImagePalette(imagePath: string, count: unknown): Promise<PaletteColor[]> {
+  if (typeof imagePath !== 'string' || !path.isAbsolute(imagePath)) {
+    throw new Error(`path must be absolute: ${imagePath}`);
+  }
+  if (count !== undefined && (typeof count !== 'number' || count < 2 || count > 16)) {
+    throw new Error(`count must be a number from 2 to 16, got ${count}`);
+  }
+  const image = decodeImage(await fs.promises.readFile(imagePath));
+  return extractPalette(image, typeof count === 'number' ? count : DEFAULT_PALETTE_SIZE);
+}
+
+/**
+ * Effective values that are known, as a plain color map
+ */
+function effectiveColorMap(effective: EffectiveColors): ColorMap {
+  const colors: ColorMap = {};
+  for (const [key, color] of Object.entries(effective.colors)) {
+    if (color.effectiveValue) {
+      colors[key] = color.effectiveValue;
+    }
+  }
+  return colors;
+}
+
+/**
+ * Describe a history entry in plain words for the assistant
+ * (e.g., "applyMoodPreset (Cyberpunk) at 14:02")
+ */
+function describeHistoryEntry(entry: HistoryEntry): string {
+  const time = new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const detail = entry.detail ? ` (${entry.detail})` : '';
+  return `${entry.tool}${detail} at ${time}`;
+}
+
+/**
+ * Transaction operations that write a mood's colors and syntax rules together
+ * (semantic italic/bold/underline flags become a fontStyle)
+ */
+function moodOperations(
+  colors: ColorMap,
+  textMateRules: TokenColorRule[],
+  semanticTokenRules: SemanticTokenRules
+): TransactionOperation[] {
+  const operations: TransactionOperation[] = Object.entries(colors).map(([key, value]) => ({ op: 'set', key, value }));
+
+  for (const rule of textMateRules) {
+    operations.push({
+      op: 'setTokenColor',
+      scope: Array.isArray(rule.scope) ? rule.scope.join(',') : rule.scope,
+      foreground: rule.settings.foreground,
+      fontStyle: rule.settings.fontStyle,
+    });
+  }
+
+  for (const [selector, style] of Object.entries(semanticTokenRules)) {
+    if (typeof style === 'string') {
+      operations.push({ op: 'setTokenColor', scope: selector, foreground: style, semantic: true });
+      continue;
+    }
+    const flags = (['bold', 'italic', 'underline'] as const).filter(flag => style[flag]);
+    operations.push({
+      op: 'setTokenColor',
+      scope: selector,
+      foreground: style.foreground,
+      fontStyle: style.fontStyle ?? (flags.length > 0 ? flags.join(' ') : undefined),
+      semantic: true,
+    });
+  }
+
+  return operations;
+}
 
 /**
  * Main server initialization and startup
@@ -42,7 +358,7 @@ import { ColorGroups } from '../colors/groups';
  * 1. Bridge client (HTTP connection to extension host)
  * 2. Color utilities (no vscode dependency)
  * 3. MCP server with stdio transport
- * 4. Tool handlers for all 5 MCP tools
+ * 4. Tool handlers for every MCP tool
  */
 async function main() {
   // Initialize bridge client (HTTP to extension host)
@@ -53,6 +369,116 @@ async function main() {
   const colorManipulator = new ColorManipulator();
   const colorGroups: ColorGroups = colorGroupsData as ColorGroups;
 
+  /**
+   * Custom and effective values of every key in a group
+   * (shared by the getColorsInGroup tool and the theme://groups/{group} resource)
+   */
+  const readGroup = async (groupId: string, scope: ColorScope = {}) => {
+    const group = colorGroups[groupId];
+    if (!group) {
+      throw new Error(`Unknown color group: ${groupId}. Available groups: ${Object.keys(colorGroups).join(', ')}`);
+    }
+
+    // Customizations at the requested level; effective values always use the merged settings
+    const [currentColors, effective] = await Promise.all([
+      bridge.getCurrentColors(scope),
+      bridge.getEffectiveColors(group.keys, { themeScope: scope.themeScope, folderUri: scope.folderUri }),
+    ]);
+    const colors: Record<string, { customValue: string | null; effectiveValue: string | null; source: string }> = {};
+
+    // Map group keys to their custom and effective values
+    for (const key of group.keys) {
+      colors[key] = {
+        customValue: currentColors[key] ?? null,
+        effectiveValue: effective.colors[key]?.effectiveValue ?? null,
+        source: effective.colors[key]?.source ?? 'unknown',
+      };
+    }
+
+    return {
+      group: group.name,
+      description: group.description,
+      theme: effective.theme,
+      colors,
+    };
+  };
+
+  /**
+   * Re-read the preset files and saved custom moods so MoodPresetsManager sees them
+   * (read on every use: files are small, and a new directory has no watcher yet)
+   */
+  const loadMoodPresets = async () => {
+    const [files, customMoods] = await Promise.all([bridge.getMoodPresets(), bridge.listCustomMoods()]);
+    MoodPresetsManager.setFilePresets(files.presets);
+    MoodPresetsManager.setCustomPresets(customMoods.map(mood => mood.preset));
+    return files;
+  };
+
+  /**
+   * Validate a roles argument
+   *
+   * @param allowRemoval Accept an empty string for a role (updateMood removes it)
+   */
+  const parseRoles = (value: unknown, allowRemoval: boolean = false): MoodRoles => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('roles must be an object of role colors');
+    }
+    for (const [role, color] of Object.entries(value)) {
+      if (!MOOD_ROLES.includes(role as MoodRole)) {
+        throw new Error(`Unknown role: ${role}. Available roles: ${MOOD_ROLES.join(', ')}`);
+      }
+      if (!(allowRemoval && color === '') && !colorManipulator.isValidColor(color)) {
+        throw new Error(`Invalid color value for role ${role}: ${color}. Must be a valid hex color (e.g., "#ff00ff")`);
+      }
+    }
+    return value as MoodRoles;
+  };
+
+  /**
+   * Check colors against the accessibility policy before they are written
+   *
+   * Every write tool goes through this. In block mode a failing change throws;
+   * in autoFix mode the returned colors include the adjusted foregrounds.
+   */
+  const enforceAccessibility = async (proposed: ColorMap, scope: ColorScope = {}): Promise<PolicyCheck> => {
+    const pairs = pairsInvolving(Object.keys(proposed));
+    if (pairs.length === 0) {
+      return { colors: proposed, blocked: false, fixes: {}, accessibility: { passed: true, warnings: [], suggestions: [] } };
+    }
+
+    const [policy, effective] = await Promise.all([
+      bridge.getAccessibilityPolicy(scope.folderUri),
+      bridge.getEffectiveColors(keysOfPairs(pairs), { themeScope: scope.themeScope, folderUri: scope.folderUri }),
+    ]);
+    const check = checkContrastPolicy(proposed, effectiveColorMap(effective), policy);
+    if (check.blocked) {
+      const suggestions = check.accessibility.suggestions.length > 0 ? ` Suggested fixes: ${check.accessibility.suggestions.join('; ')}` : '';
+      throw new Error(`Blocked by accessibility policy (minimum contrast ${policy.minimumContrast}:1): ${check.accessibility.warnings.join('; ')}.${suggestions}`);
+    }
+    return check;
+  };
+
+  /**
+   * Apply a mood's colors, and unless includeSyntax is false its syntax rules,
+   * in one transaction, so a single undo removes the whole mood
+   */
+  const applyMood = async (preset: MoodPreset, scope: ColorScope, tool: string, includeSyntax: boolean) => {
+    const check = await enforceAccessibility(preset.colors, scope);
+    const tokenRules = includeSyntax ? MoodPresetsManager.generateTokenColors(preset) : [];
+    const semanticRules = tokenRules.length > 0 ? MoodPresetsManager.generateSemanticTokenRules(preset) : {};
+
+    const result = await bridge.transaction(
+      moodOperations(check.colors, tokenRules, semanticRules),
+      scope,
+      { tool, detail: preset.name }
+    );
+    if (!result.committed) {
+      const failed = result.results.find(r => r.status === 'failed');
+      throw new Error(`Could not apply ${preset.name}: ${failed?.key ?? 'operation'} ${failed?.error ?? 'failed'}`);
+    }
+    return { check, tokenRules };
+  };
+
   // Create MCP server with metadata
   const server = new Server(
     {
@@ -62,6 +488,8 @@ async function main() {
     {
       capabilities: {
         tools: {}, // We support tool calls
+        resources: { subscribe: true, listChanged: true }, // Live colors, groups, presets and snapshots
+        prompts: {}, // Workflow templates (see prompts.ts)
       },
     }
   );
@@ -69,12 +497,7 @@ async function main() {
   /**
    * List available tools
    *
-   * Returns schema for all 5 tools:
-   * 1. listColorGroups - List semantic color groups
-   * 2. getColorsInGroup - Get all colors in a specific group
-   * 3. setColor - Set a specific color key
-   * 4. getColor - Get a specific color key value
-   * 5. resetColors - Reset all color customizations
+   * Returns the schema of every tool (the README's "MCP Tools" section documents each one)
    */
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: [
@@ -88,7 +511,7 @@ async function main() {
       },
       {
         name: 'getColorsInGroup',
-        description: 'Get all color keys and current values for a specific group (e.g., "editor", "sidebar")',
+        description: 'Get all color keys in a specific group (e.g., "editor", "sidebar") with their custom value and the effective value from the active theme',
         inputSchema: {
           type: 'object',
           properties: {
@@ -96,6 +519,9 @@ async function main() {
               type: 'string',
               description: 'Group name (e.g., "editor", "sidebar", "chat", "terminal")',
             },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: { ...TARGET_SCHEMA, description: 'Only read this settings scope (default: the merged value VS Code applies)' },
+            folderUri: FOLDER_URI_SCHEMA,
           },
           required: ['group'],
         },
@@ -114,13 +540,33 @@ async function main() {
               type: 'string',
               description: 'Hex color value (e.g., "#ff00ff", "#1a1a1a")',
             },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
           },
           required: ['key', 'value'],
         },
       },
       {
         name: 'getColor',
-        description: 'Get the current value of a specific VSCode color key',
+        description: 'Get the custom and effective value of a specific VSCode color key (effective values fall back to the base theme and VS Code defaults)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            key: {
+              type: 'string',
+              description: 'Color key (e.g., "editor.background", "sideBar.foreground")',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: { ...TARGET_SCHEMA, description: 'Only read this settings scope (default: the merged value VS Code applies)' },
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+          required: ['key'],
+        },
+      },
+      {
+        name: 'inspectColor',
+        description: 'Show where a color comes from: its value in default, user, workspace and workspace folder settings, the effective value and which scope (or "[Theme Name]" block) wins',
         inputSchema: {
           type: 'object',
           properties: {
@@ -128,21 +574,27 @@ async function main() {
               type: 'string',
               description: 'Color key (e.g., "editor.background", "sideBar.foreground")',
             },
+            themeScope: THEME_SCOPE_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
           },
           required: ['key'],
         },
       },
       {
         name: 'resetColors',
-        description: 'Reset all color customizations to theme defaults (removes all workbench.colorCustomizations)',
+        description: 'Reset color customizations to theme defaults. Without themeScope, removes the unscoped customizations and keeps "[Theme Name]" blocks; with themeScope, removes only that block',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+          },
         },
       },
       {
         name: 'listMoodPresets',
-        description: 'List all available mood presets for quick theme changes (Ocean Depths, Sunset Vibes, Cyberpunk, etc.)',
+        description: 'List all available mood presets for quick theme changes (Ocean Depths, Sunset Vibes, Cyberpunk, etc.), including presets from ~/.8b-moods and .vscode/8b-moods JSON files, and the validation errors of files that failed to load',
         inputSchema: {
           type: 'object',
           properties: {},
@@ -158,6 +610,18 @@ async function main() {
               type: 'string',
               description: 'Name of the mood preset to apply',
             },
+            variant: {
+              ...VARIANT_SCHEMA,
+              description: 'Generate for this kind of theme: dark, light (light surfaces, dark text), highContrastDark or highContrastLight (default: the preset\'s own variant if it has one, otherwise the kind of the active theme)',
+            },
+            colorSpace: COLOR_SPACE_SCHEMA,
+            includeSyntax: {
+              type: 'boolean',
+              description: 'Also recolor code syntax (keywords, strings, comments, functions, types) to match (default: true)',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
           },
           required: ['name'],
         },
@@ -177,6 +641,7 @@ async function main() {
               enum: ['analogous', 'complementary', 'triadic', 'tetradic', 'split-complementary', 'square'],
               description: 'Type of color harmony to generate',
             },
+            colorSpace: COLOR_SPACE_SCHEMA,
           },
           required: ['baseColor', 'harmonyType'],
         },
@@ -199,6 +664,10 @@ async function main() {
               type: 'number',
               description: 'Number of colors in the gradient (default: 10)',
             },
+            colorSpace: {
+              ...COLOR_SPACE_SCHEMA,
+              description: 'Color space to interpolate in: hsl (default, mixes in sRGB), oklch or lch (keep lightness and chroma even, no grey middle)',
+            },
           },
           required: ['startColor', 'endColor'],
         },
@@ -223,7 +692,7 @@ async function main() {
       },
       {
         name: 'ensureReadableColor',
-        description: 'Adjust a foreground color to ensure it meets WCAG readability standards against a background',
+        description: 'Adjust a foreground color to ensure it meets WCAG 2 or APCA readability standards against a background',
         inputSchema: {
           type: 'object',
           properties: {
@@ -235,88 +704,1684 @@ async function main() {
               type: 'string',
               description: 'Background color in hex format',
             },
+            algorithm: ALGORITHM_SCHEMA,
             targetRatio: {
               type: 'number',
-              description: 'Target contrast ratio (4.5 for AA, 7.0 for AAA, default: 4.5)',
+              description: 'wcag2: target contrast ratio (4.5 for AA, 7.0 for AAA, default: 4.5). apca: target Lc (overrides usage)',
+            },
+            usage: {
+              type: 'string',
+              enum: ['bodyText', 'uiLabel', 'largeText', 'nonText'],
+              description: 'apca: what the foreground is used for, which sets the target Lc (bodyText 75, uiLabel 60, largeText 45, nonText 30; default: bodyText)',
             },
           },
           required: ['foreground', 'background'],
         },
       },
+      {
+        name: 'auditAccessibility',
+        description: 'Check contrast of every foreground/background pair VS Code draws (editor text, status bar, lists, tabs, inputs, terminal ANSI colors, ...) in the live theme, with alpha compositing. Returns a graded report with AA/AAA failures and suggested fixes; autoFix applies them as one undoable change',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            level: {
+              type: 'string',
+              enum: ['AA', 'AAA'],
+              description: 'Level to check against (default: AA = 4.5:1 for text, 3:1 for icons and borders; with apca, AA = the minimum Lc for each usage and AAA = the preferred Lc, 15 higher)',
+            },
+            algorithm: ALGORITHM_SCHEMA,
+            autoFix: {
+              type: 'boolean',
+              description: 'Adjust failing foregrounds until they pass and apply them (default: false)',
+            },
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'simulateColorBlindness',
+        description: 'Show the live theme as a viewer with a color vision deficiency sees it (Machado et al. simulation). Returns each key\'s effective and simulated value',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            deficiency: {
+              type: 'string',
+              enum: VISION_DEFICIENCIES,
+              description: 'protanopia (no red cones), deuteranopia (no green cones), tritanopia (no blue cones) or achromatopsia (no color vision)',
+            },
+            severity: {
+              type: 'number',
+              description: 'Severity from 0 (normal vision) to 1 (full deficiency, default: 1)',
+            },
+            group: {
+              type: 'string',
+              description: 'Only simulate this color group (see listColorGroups; default: every known key)',
+            },
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+          required: ['deficiency'],
+        },
+      },
+      {
+        name: 'checkDistinguishability',
+        description: 'Check that colors with different meanings stay distinguishable for colorblind viewers: git added/modified/deleted, errors/warnings/info, diff inserted/removed, gutter added/modified/deleted and terminal red/green/yellow. Flags pairs whose simulated Delta E is below the minimum and suggests a new value',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            deficiencies: {
+              type: 'array',
+              items: { type: 'string', enum: VISION_DEFICIENCIES },
+              description: 'Deficiencies to check (default: protanopia, deuteranopia, tritanopia)',
+            },
+            minimumDeltaE: {
+              type: 'number',
+              description: 'Smallest acceptable simulated Delta E (default: 10)',
+            },
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'comparePalette',
+        description: 'Find near-duplicate colors: key pairs whose values are hard to tell apart (perceptual Delta E below a threshold), e.g. a sidebar and status bar with the same background. Checks the given colors, a color group, or by default the current customizations',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            colors: {
+              type: 'object',
+              description: 'Color map to check, e.g. {"sideBar.background": "#1b1b1b", ...} (default: current customizations)',
+              additionalProperties: { type: 'string' },
+            },
+            group: {
+              type: 'string',
+              description: 'Check the effective colors of this group instead (e.g. "sidebar")',
+            },
+            threshold: {
+              type: 'number',
+              description: 'Report pairs closer than this Delta E (default: 2)',
+            },
+            method: DELTA_E_METHOD_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'separateSurfaces',
+        description: `Move the large surfaces (${SURFACE_KEYS.join(', ')}) apart until every pair is at least a minimum Delta E, so panel boundaries stay visible. The editor stays put; the others change lightness only, keeping their hue. Writes the result as one undoable change unless apply is false`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            minimumDeltaE: {
+              type: 'number',
+              description: 'Smallest acceptable Delta E between two surfaces (default: 5)',
+            },
+            method: DELTA_E_METHOD_SCHEMA,
+            apply: {
+              type: 'boolean',
+              description: 'Write the adjusted surfaces (default: true); false only reports them',
+            },
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+        },
+      },
       {
         name: 'createCustomMood',
-        description: 'Create a custom mood preset from a base color and apply it',
+        description: 'Create a custom mood preset from a base color, or from brand role colors (primary, secondary, accent, ...), and apply it. Roles are used as given and the rest is derived from the harmony; roles are checked for contrast against each other first',
         inputSchema: {
           type: 'object',
           properties: {
             baseColor: {
               type: 'string',
-              description: 'Base color for the mood in hex format',
+              description: 'Base color for the mood in hex format (default: roles.primary)',
+            },
+            roles: {
+              type: 'object',
+              description: 'Role colors in hex format; roles left out are derived from the base color',
+              properties: Object.fromEntries(MOOD_ROLES.map(role => [role, { type: 'string', description: ROLE_DESCRIPTIONS[role] }])),
+              additionalProperties: false,
             },
             name: {
               type: 'string',
               description: 'Name for the custom mood (default: "Custom Mood")',
             },
+            variant: VARIANT_SCHEMA,
+            colorSpace: COLOR_SPACE_SCHEMA,
+            includeSyntax: {
+              type: 'boolean',
+              description: 'Also recolor code syntax to match (default: true)',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
           },
-          required: ['baseColor'],
         },
       },
-    ],
-  }));
-
-  /**
-   * Handle tool calls
-   *
-   * Routes each tool to its implementation:
-   * - listColorGroups: Returns semantic groups from color-groups.json
-   * - getColorsInGroup: Uses bridge to get current colors from VSCode
-   * - setColor: Validates color, then uses bridge to set via VSCode API
-   * - getColor: Uses bridge to get value via VSCode API
-   * - resetColors: Uses bridge to reset all via VSCode API
-   */
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    switch (name) {
-      case 'listColorGroups': {
-        // Return semantic color groups with metadata
-        // This doesn't need VSCode API - just returns static data
-        const groups = Object.entries(colorGroups).map(([id, group]) => ({
-          id,
-          name: group.name,
-          description: group.description,
-          keyCount: group.keys.length,
-          commonIntents: group.commonIntents,
-        }));
+      {
+        name: 'extractPaletteFromImage',
+        description: 'Find the dominant colors of a local PNG or JPEG image (e.g., a wallpaper or brand screenshot), with how much of the image each covers, and suggest background, surface, foreground and accent roles. Read-only; pass an accent to createCustomMood or use themeFromImage to apply',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Absolute path of the PNG or JPEG file',
+            },
+            count: {
+              type: 'number',
+              description: 'Number of colors to extract, 2-16 (default: 6)',
+            },
+            kind: {
+              type: 'string',
+              enum: ['dark', 'light'],
+              description: 'Theme kind to pick roles for (default: dark unless the image is mostly light)',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'themeFromImage',
+        description: 'Theme the editor from a local PNG or JPEG image: extracts its palette, picks background, surface, foreground and accent colors by lightness and chroma, and applies them as a custom mood',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Absolute path of the PNG or JPEG file',
+            },
+            name: {
+              type: 'string',
+              description: 'Name for the mood (default: the file name)',
+            },
+            kind: {
+              type: 'string',
+              enum: ['dark', 'light'],
+              description: 'Theme kind (default: dark unless the image is mostly light)',
+            },
+            count: {
+              type: 'number',
+              description: 'Number of colors to extract, 2-16 (default: 6)',
+            },
+            colorSpace: COLOR_SPACE_SCHEMA,
+            includeSyntax: {
+              type: 'boolean',
+              description: 'Also recolor code syntax to match (default: true)',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'updateMood',
+        description: 'Change a saved custom mood (one made by createCustomMood or themeFromImage) and regenerate its colors: new base color, roles, description, variant or color space. Saved right away; pass apply to also apply it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name of the custom mood',
+            },
+            baseColor: {
+              type: 'string',
+              description: 'New base color for the harmony in hex format',
+            },
+            roles: {
+              type: 'object',
+              description: 'Role colors to change in hex format; other roles are kept, and an empty string removes a role',
+              properties: Object.fromEntries(MOOD_ROLES.map(role => [role, { type: 'string', description: ROLE_DESCRIPTIONS[role] }])),
+              additionalProperties: false,
+            },
+            description: {
+              type: 'string',
+              description: 'New description',
+            },
+            variant: {
+              ...VARIANT_SCHEMA,
+              description: 'Theme kind the mood is generated for by default',
+            },
+            colorSpace: COLOR_SPACE_SCHEMA,
+            apply: {
+              type: 'boolean',
+              description: 'Also apply the updated mood (default: false)',
+            },
+            includeSyntax: {
+              type: 'boolean',
+              description: 'When applying, also recolor code syntax to match (default: true)',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'renameMood',
+        description: 'Rename a saved custom mood',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Current name of the custom mood',
+            },
+            newName: {
+              type: 'string',
+              description: 'New name (must not be taken by another custom mood or a built-in preset)',
+            },
+          },
+          required: ['name', 'newName'],
+        },
+      },
+      {
+        name: 'deleteMood',
+        description: 'Delete a saved custom mood. Colors already applied are kept',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Name of the custom mood to delete',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'undo',
+        description: 'Undo the most recent theme change made through these tools (e.g., revert an applied mood preset)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: TARGET_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'redo',
+        description: 'Re-apply the most recently undone theme change',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: TARGET_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'listHistory',
+        description: 'List recent theme changes (tool, time and changed keys) that can be undone or redone',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: TARGET_SCHEMA,
+            limit: {
+              type: 'number',
+              description: 'Maximum number of entries to return per list (default: 10)',
+            },
+          },
+        },
+      },
+      {
+        name: 'saveSnapshot',
+        description: 'Save the current color customizations as a named snapshot (e.g., "demo-day") to restore later. Each settings scope and theme block is saved separately',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Snapshot name',
+            },
+            description: {
+              type: 'string',
+              description: 'Optional note about the snapshot',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace an existing snapshot with the same name (default: false)',
+            },
+            themeScope: { ...THEME_SCOPE_SCHEMA, description: 'Only save this theme block (default: the unscoped colors and every block)' },
+            target: { ...TARGET_SCHEMA, description: 'Only save this settings scope (default: user and workspace settings, plus the folder settings when folderUri is given)' },
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'listSnapshots',
+        description: 'List saved theme snapshots, newest first',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'restoreSnapshot',
+        description: 'Replace the current color customizations with a saved snapshot, putting each color back in the settings scope and theme block it was saved from (can be undone)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Snapshot name',
+            },
+            target: { ...TARGET_SCHEMA, description: 'Only restore this settings scope (default: every saved scope)' },
+            folderUri: { ...FOLDER_URI_SCHEMA, description: 'Workspace folder URI or absolute path for the WorkspaceFolder scope (default: the folder it was saved from)' },
+            themeScope: { ...THEME_SCOPE_SCHEMA, description: 'Only restore this theme block (default: the unscoped colors and every block)' },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'deleteSnapshot',
+        description: 'Delete a saved theme snapshot',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Snapshot name',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'diffSnapshots',
+        description: 'Show which color keys differ between two snapshots, or between a snapshot and the current colors',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Snapshot providing the old values',
+            },
+            to: {
+              type: 'string',
+              description: 'Snapshot providing the new values (default: current colors)',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: { ...TARGET_SCHEMA, description: 'Only read this settings scope (default: the merged value VS Code applies)' },
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+          required: ['from'],
+        },
+      },
+      {
+        name: 'exportTheme',
+        description: 'Export the current color customizations as a complete, installable VS Code color theme (*-color-theme.json), optionally scaffolded as a theme extension folder',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Theme name shown in the theme picker',
+            },
+            outputPath: {
+              type: 'string',
+              description: 'Absolute path of a .json file or folder to write to (with scaffold: the folder to create the extension in)',
+            },
+            scaffold: {
+              type: 'boolean',
+              description: 'Create a minimal theme extension (package.json + themes/) instead of a single file (default: false)',
+            },
+            publisher: {
+              type: 'string',
+              description: 'Publisher ID for the scaffolded package.json (default: "local")',
+            },
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: { ...TARGET_SCHEMA, description: 'Only read this settings scope (default: the merged value VS Code applies)' },
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+          required: ['name', 'outputPath'],
+        },
+      },
+      {
+        name: 'importTheme',
+        description: 'Import a VS Code *-color-theme.json file (JSONC, include chains supported) as a saved custom mood usable with applyMoodPreset',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Absolute path of the theme file',
+            },
+            name: {
+              type: 'string',
+              description: 'Mood preset name (default: the theme\'s own name)',
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace a custom mood with the same name (default: false; other presets are never replaced)',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      {
+        name: 'getTokenColors',
+        description: 'Get current syntax color customizations (TextMate scope rules and semantic token rules)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            themeScope: THEME_SCOPE_SCHEMA,
+            target: { ...TARGET_SCHEMA, description: 'Only read this settings scope (default: the merged value VS Code applies)' },
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'setTokenColor',
+        description: 'Set the color/style of a syntax token by TextMate scope (e.g., "keyword", "string.quoted") or semantic token selector (e.g., "function", "variable.readonly")',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scope: {
+              type: 'string',
+              description: 'TextMate scope(s), comma-separated, or a semantic token selector when semantic is true',
+            },
+            foreground: {
+              type: 'string',
+              description: 'Hex color value (e.g., "#ff79c6")',
+            },
+            fontStyle: {
+              type: 'string',
+              description: 'Space-separated font styles: italic, bold, underline, strikethrough (empty string clears)',
+            },
+            semantic: {
+              type: 'boolean',
+              description: 'Treat scope as a semantic token selector (default: false)',
+            },
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+          required: ['scope'],
+        },
+      },
+      {
+        name: 'resetTokenColors',
+        description: 'Remove all syntax color customizations so the base theme\'s syntax colors show through',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'listThemeScopes',
+        description: 'List "[Theme Name]" blocks that carry their own color overrides, and whether each applies to the active theme',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: { ...TARGET_SCHEMA, description: 'Only read this settings scope (default: the merged value VS Code applies)' },
+            folderUri: FOLDER_URI_SCHEMA,
+          },
+        },
+      },
+      {
+        name: 'applyTransaction',
+        description: 'Apply several edits all-or-nothing, in order, as one undoable change (colors and syntax rules together). Each set/reset can carry an expected current value; if any check fails nothing is written. Use this instead of reading a color and then setting it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operations: {
+              type: 'array',
+              description: 'Ordered operations',
+              items: {
+                type: 'object',
+                properties: {
+                  op: {
+                    type: 'string',
+                    enum: ['set', 'reset', 'resetAll', 'setTokenColor'],
+                    description: 'set/reset a color key, resetAll colors at this scope, or setTokenColor',
+                  },
+                  key: { type: 'string', description: 'Color key (set, reset)' },
+                  value: { type: 'string', description: 'Hex color value (set)' },
+                  expected: {
+                    type: ['string', 'null'],
+                    description: 'Precondition for set/reset: the current stored value, or null if the key must be unset',
+                  },
+                  scope: { type: 'string', description: 'TextMate scope(s) or semantic selector (setTokenColor)' },
+                  foreground: { type: 'string', description: 'Hex color value (setTokenColor)' },
+                  fontStyle: { type: 'string', description: 'Font styles (setTokenColor)' },
+                  semantic: { type: 'boolean', description: 'Treat scope as a semantic token selector (setTokenColor)' },
+                },
+                required: ['op'],
+              },
+            },
+            description: {
+              type: 'string',
+              description: 'Short note shown in history (e.g., "darker sidebar")',
+            },
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+          required: ['operations'],
+        },
+      },
+      {
+        name: 'previewColors',
+        description: 'Try out colors temporarily: they are applied now and revert automatically after a countdown unless confirmed (by confirmPreview or by the user clicking the status bar). Use this to experiment instead of setColor',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            colors: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Map of color keys to hex values (e.g., {"editor.background": "#1a1a2e"})',
+            },
+            durationSeconds: {
+              type: 'number',
+              description: 'Seconds until the automatic revert (default: 30, max: 600)',
+            },
+            target: TARGET_SCHEMA,
+            folderUri: FOLDER_URI_SCHEMA,
+            themeScope: THEME_SCOPE_SCHEMA,
+          },
+          required: ['colors'],
+        },
+      },
+      {
+        name: 'confirmPreview',
+        description: 'Keep the colors from the running preview (can be undone like any other change)',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'cancelPreview',
+        description: 'Revert the running color preview immediately',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+    ],
+  }));
+
+  /**
+   * Handle tool calls
+   *
+   * Routes each tool to its implementation:
+   * - listColorGroups: Returns semantic groups from color-groups.json
+   * - getColorsInGroup: Uses bridge to get current colors from VSCode
+   * - setColor: Validates color, then uses bridge to set via VSCode API
+   * - getColor: Uses bridge to get value via VSCode API
+   * - resetColors: Uses bridge to reset all via VSCode API
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    switch (name) {
+      case 'listColorGroups': {
+        // Return semantic color groups with metadata
+        // This doesn't need VSCode API - just returns static data
+        const groups = Object.entries(colorGroups).map(([id, group]) => ({
+          id,
+          name: group.name,
+          description: group.description,
+          keyCount: group.keys.length,
+          commonIntents: group.commonIntents,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ groups }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'getColorsInGroup': {
+        // Get all colors in a specific group with current values
+        if (!args) throw new Error('Missing arguments for getColorsInGroup');
+
+        // Use bridge to get customizations and the colors actually rendered
+        const group = await readGroup(args.group as string, {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(group, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'setColor': {
+        // Set a specific color key to a new value
+        if (!args) throw new Error('Missing arguments for setColor');
+        const key = args.key as string;
+        const value = args.value as string;
+        const scope = {
+          themeScope: args.themeScope as string | undefined,
+          target: args.target as ConfigurationTarget | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+
+        // Validate color format before sending to VSCode
+        if (!colorManipulator.isValidColor(value)) {
+          throw new Error(`Invalid color value: ${value}. Must be a valid hex color (e.g., "#ff00ff")`);
+        }
+
+        // autoFix may adjust this value or add foregrounds drawn on it
+        const check = await enforceAccessibility({ [key]: value }, scope);
+
+        // Read and write in one bridge call so a concurrent change can't slip in between
+        const { results } = await bridge.transaction(
+          Object.entries(check.colors).map(([setKey, setValue]) => ({ op: 'set' as const, key: setKey, value: setValue })),
+          scope,
+          { tool: 'setColor', detail: key }
+        );
+        const oldValue = results.find(r => r.key === key)?.previousValue;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  key,
+                  oldValue: oldValue || null,
+                  newValue: check.colors[key],
+                  themeScope: scope.themeScope ?? null,
+                  target: scope.target ?? 'Global',
+                  accessibility: check.accessibility,
+                  message: `Color '${key}' updated successfully`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'getColor': {
+        // Get the current value of a specific color key
+        if (!args) throw new Error('Missing arguments for getColor');
+        const key = args.key as string;
+
+        // Get color via bridge
+        const target = args.target as ConfigurationTarget | undefined;
+        const scope = {
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+        const [value, effective] = await Promise.all([
+          bridge.getColor(key, { ...scope, target }),
+          bridge.getEffectiveColors([key], scope),
+        ]);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  key,
+                  customValue: value || null,
+                  effectiveValue: effective.colors[key]?.effectiveValue ?? null,
+                  source: effective.colors[key]?.source ?? 'unknown',
+                  isSet: value !== undefined,
+                  scope: target ?? 'effective',
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'inspectColor': {
+        // Report the value at every settings level and which one wins
+        if (!args) throw new Error('Missing arguments for inspectColor');
+        const key = args.key as string;
+        const inspection = await bridge.inspectColor(key, {
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        });
+
+        const source = inspection.source
+          ? `${inspection.source}${inspection.fromThemeBlock ? ` ([${inspection.theme}] block)` : ''}`
+          : 'base theme';
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  key,
+                  theme: inspection.theme,
+                  defaultValue: inspection.defaultValue ?? null,
+                  globalValue: inspection.globalValue ?? null,
+                  workspaceValue: inspection.workspaceValue ?? null,
+                  workspaceFolderValue: inspection.workspaceFolderValue ?? null,
+                  effectiveValue: inspection.effectiveValue ?? null,
+                  source: inspection.source ?? null,
+                  fromThemeBlock: inspection.fromThemeBlock,
+                  message: `'${key}' comes from ${source}`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'resetColors': {
+        // Reset unscoped customizations (or one theme block) to theme defaults
+        const themeScope = args?.themeScope as string | undefined;
+        await bridge.resetAllColors(
+          {
+            themeScope,
+            target: args?.target as ConfigurationTarget | undefined,
+            folderUri: args?.folderUri as string | undefined,
+          },
+          { tool: 'resetColors', detail: themeScope }
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: themeScope
+                    ? `Color customizations for [${themeScope}] reset to theme defaults`
+                    : 'All unscoped color customizations reset to theme defaults',
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'listMoodPresets': {
+        // List all available mood presets
+        const files = await loadMoodPresets();
+        const presets = MoodPresetsManager.getAllPresets();
+        const presetList = presets.map(p => ({
+          name: p.name,
+          description: p.description,
+          emoji: p.emoji,
+          source: p.source ?? 'built-in',
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  presets: presetList,
+                  count: presetList.length,
+                  directories: files.directories,
+                  errors: files.errors,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'applyMoodPreset': {
+        // Apply a mood preset
+        if (!args) throw new Error('Missing arguments for applyMoodPreset');
+        const presetName = args.name as string;
+
+        const files = await loadMoodPresets();
+        const colorSpace = parseColorSpace(args.colorSpace);
+        const found = MoodPresetsManager.getPreset(presetName, colorSpace, parseVariant(args.variant));
+        if (!found) {
+          const invalid = files.errors.find(e => e.preset?.toLowerCase() === presetName?.toLowerCase());
+          if (invalid) {
+            throw new Error(`Mood preset "${presetName}" in ${invalid.file} is invalid: ${invalid.message}`);
+          }
+          const available = MoodPresetsManager.getAllPresets().map(p => p.name).join(', ');
+          throw new Error(`Unknown mood preset: ${presetName}. Available: ${available}`);
+        }
+
+        // A requested variant wins, then the preset's own (saved moods and preset
+        // files can set one), then the kind of the active theme
+        const variant = found.variant ?? (await bridge.getActiveTheme()).kind;
+        const preset = found.variant ? found : MoodPresetsManager.getPreset(presetName, colorSpace, variant)!;
+
+        // Apply all colors, and match code syntax to the mood unless asked not to
+        const scope: ColorScope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+        const { check, tokenRules } = await applyMood(preset, scope, 'applyMoodPreset', args.includeSyntax !== false);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  preset: preset.name,
+                  variant,
+                  description: preset.description,
+                  emoji: preset.emoji,
+                  colorsApplied: Object.keys(check.colors).length,
+                  tokenRulesApplied: tokenRules.length,
+                  accessibility: check.accessibility,
+                  message: `${preset.emoji} ${preset.name} theme applied! ${preset.description}`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'generateColorHarmony': {
+        // Generate color harmony from base color
+        if (!args) throw new Error('Missing arguments for generateColorHarmony');
+        const baseColor = args.baseColor as string;
+        const harmonyType = args.harmonyType as 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'split-complementary' | 'square';
+
+        const colorSpace = parseColorSpace(args.colorSpace) ?? 'hsl';
+
+        const harmony = AdvancedColorOps.generateHarmony(baseColor, harmonyType, colorSpace);
+        if (!harmony) {
+          throw new Error(`Invalid base color: ${baseColor}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  harmonyType: harmony.name,
+                  baseColor,
+                  colorSpace,
+                  colors: harmony.colors,
+                  count: harmony.colors.length,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'generateGradient': {
+        // Generate color gradient
+        if (!args) throw new Error('Missing arguments for generateGradient');
+        const startColor = args.startColor as string;
+        const endColor = args.endColor as string;
+        const steps = (args.steps as number) || 10;
+        const colorSpace = parseColorSpace(args.colorSpace) ?? 'hsl';
+
+        const gradient = AdvancedColorOps.generateGradient(startColor, endColor, steps, colorSpace);
+        if (gradient.length === 0) {
+          throw new Error(`Invalid colors or steps: ${startColor}, ${endColor}, ${steps}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  startColor,
+                  endColor,
+                  steps,
+                  colorSpace,
+                  gradient,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'adjustColorTemperature': {
+        // Adjust color temperature
+        if (!args) throw new Error('Missing arguments for adjustColorTemperature');
+        const color = args.color as string;
+        const amount = args.amount as number;
+
+        const adjusted = AdvancedColorOps.adjustTemperature(color, amount);
+        if (!adjusted) {
+          throw new Error(`Invalid color: ${color}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  originalColor: color,
+                  adjustedColor: adjusted,
+                  temperatureChange: amount,
+                  direction: amount > 0 ? 'warmer' : 'cooler',
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'ensureReadableColor': {
+        // Ensure color readability
+        if (!args) throw new Error('Missing arguments for ensureReadableColor');
+        const foreground = args.foreground as string;
+        const background = args.background as string;
+        const algorithm: ContrastAlgorithm = args.algorithm === 'apca' ? 'apca' : 'wcag2';
+
+        if (algorithm === 'apca') {
+          const usage = (args.usage as ApcaUsage | undefined) ?? 'bodyText';
+          if (!APCA_THRESHOLDS[usage]) {
+            throw new Error(`Unknown usage: ${usage}. Use one of: ${Object.keys(APCA_THRESHOLDS).join(', ')}`);
+          }
+          const targetLc = (args.targetRatio as number) || APCA_THRESHOLDS[usage];
+          const readable = AdvancedColorOps.ensureReadability(foreground, background, targetLc, 'apca');
+          const manipulator = new ColorManipulator();
+          const round = (lc: number) => Math.round(lc * 100) / 100;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    originalForeground: foreground,
+                    adjustedForeground: readable,
+                    background,
+                    algorithm,
+                    usage,
+                    targetLc,
+                    originalLc: round(manipulator.getAPCAContrast(foreground, background)),
+                    adjustedLc: round(manipulator.getAPCAContrast(readable, background)),
+                    wasAdjusted: foreground !== readable,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const targetRatio = (args.targetRatio as number) || 4.5;
+        const readable = AdvancedColorOps.ensureReadability(foreground, background, targetRatio);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  originalForeground: foreground,
+                  adjustedForeground: readable,
+                  background,
+                  algorithm,
+                  targetRatio,
+                  wcagLevel: targetRatio >= 7 ? 'AAA' : 'AA',
+                  wasAdjusted: foreground !== readable,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'auditAccessibility': {
+        // Check every known pairing against the colors VS Code actually renders
+        const level: WcagLevel = args?.level === 'AAA' ? 'AAA' : 'AA';
+        const algorithm: ContrastAlgorithm = args?.algorithm === 'apca' ? 'apca' : 'wcag2';
+        const standard = algorithm === 'apca' ? `APCA ${level}` : `WCAG ${level}`;
+        const format = (value: number) => algorithm === 'apca' ? `Lc ${value}` : `${value}:1`;
+        const scope = {
+          target: args?.target as ConfigurationTarget | undefined,
+          themeScope: args?.themeScope as string | undefined,
+          folderUri: args?.folderUri as string | undefined,
+        };
+        const effective = await bridge.getEffectiveColors(keysOfPairs(CONTRAST_PAIRS), {
+          themeScope: scope.themeScope,
+          folderUri: scope.folderUri,
+        });
+        const colors = effectiveColorMap(effective);
+
+        const report = auditContrast(colors, level, CONTRAST_PAIRS, algorithm);
+        const fixes = fixContrast(colors, report);
+
+        // All fixes go in one write, so a single undo reverts them
+        let applied: ThemeChange | undefined;
+        if (args?.autoFix && Object.keys(fixes).length > 0) {
+          await bridge.setColors(fixes, scope, { tool: 'auditAccessibility', detail: `autoFix ${standard}` });
+          const after = auditContrast({ ...colors, ...fixes }, level, CONTRAST_PAIRS, algorithm);
+          applied = {
+            success: true,
+            changes: Object.entries(fixes).map(([key, value]) => ({
+              key,
+              oldValue: colors[key],
+              newValue: value,
+              reason: `Contrast below ${standard}`,
+            })),
+            accessibility: {
+              passed: after.failures.length === 0,
+              warnings: after.failures.map(f => `${f.description}: ${f.foreground} on ${f.background} is still ${format(f.ratio)} (needs ${format(f.required)})`),
+              suggestions: after.failures.length > 0 ? ['Adjust the backgrounds of the remaining pairs; their foregrounds are already at the limit'] : [],
+            },
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  theme: effective.theme,
+                  level,
+                  algorithm,
+                  grade: report.grade,
+                  checked: report.checked.length,
+                  passed: report.checked.length - report.failures.length,
+                  failures: report.failures.map(f => ({
+                    description: f.description,
+                    foreground: f.foreground,
+                    background: f.background,
+                    foregroundValue: f.foregroundValue,
+                    backgroundValue: f.backgroundValue,
+                    ...(algorithm === 'apca' ? { lc: f.lc, required: f.required } : { ratio: f.ratio, required: f.required }),
+                    grade: f.grade,
+                    suggestedForeground: fixes[f.foreground] ?? null,
+                  })),
+                  skipped: report.skipped.map(s => `${s.foreground} on ${s.background} (unknown: ${s.missing.join(', ')})`),
+                  applied: applied ?? null,
+                  message: report.failures.length === 0
+                    ? `✅ All ${report.checked.length} pairs meet ${standard}`
+                    : applied
+                      ? `🔧 Fixed ${applied.changes.length} colors; ${applied.accessibility?.warnings.length ?? 0} pairs still fail`
+                      : `⚠️ ${report.failures.length} of ${report.checked.length} pairs fail ${standard}. Run again with autoFix: true to apply the suggested foregrounds`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'simulateColorBlindness': {
+        // Transform the colors VS Code actually renders
+        if (!args) throw new Error('Missing arguments for simulateColorBlindness');
+        const deficiency = args.deficiency as VisionDeficiency;
+        if (!VISION_DEFICIENCIES.includes(deficiency)) {
+          throw new Error(`Unknown deficiency: ${deficiency}. Use one of: ${VISION_DEFICIENCIES.join(', ')}`);
+        }
+        const severity = typeof args.severity === 'number' ? Math.min(1, Math.max(0, args.severity)) : 1;
+        let keys: string[] | undefined;
+        if (args.group) {
+          const group = colorGroups[args.group as string];
+          if (!group) {
+            throw new Error(`Unknown color group: ${args.group}. Available groups: ${Object.keys(colorGroups).join(', ')}`);
+          }
+          keys = group.keys;
+        }
+
+        const effective = await bridge.getEffectiveColors(keys, {
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        });
+        const colors = effectiveColorMap(effective);
+        const simulated = simulatePalette(colors, deficiency, severity);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  theme: effective.theme,
+                  deficiency,
+                  severity,
+                  colors: Object.fromEntries(
+                    Object.keys(simulated).map(key => [key, { original: colors[key], simulated: simulated[key] }])
+                  ),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'checkDistinguishability': {
+        // Compare semantic key sets as colorblind viewers see them
+        const requested = Array.isArray(args?.deficiencies) ? args.deficiencies as VisionDeficiency[] : undefined;
+        const unknown = (requested ?? []).filter(d => !VISION_DEFICIENCIES.includes(d));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown deficiency: ${unknown.join(', ')}. Use any of: ${VISION_DEFICIENCIES.join(', ')}`);
+        }
+        const keys = [...new Set(DISTINCT_SETS.flatMap(set => [...set.keys, set.base]))];
+        const effective = await bridge.getEffectiveColors(keys, {
+          themeScope: args?.themeScope as string | undefined,
+          folderUri: args?.folderUri as string | undefined,
+        });
+        const report = checkDistinguishability(
+          effectiveColorMap(effective),
+          requested && requested.length > 0 ? requested : undefined,
+          typeof args?.minimumDeltaE === 'number' ? args.minimumDeltaE : undefined
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  theme: effective.theme,
+                  deficiencies: report.deficiencies,
+                  minimumDeltaE: report.minimumDeltaE,
+                  checked: report.checked,
+                  issues: report.issues.map(issue => ({
+                    ...issue,
+                    suggestion: report.fixes[issue.keys[1]]
+                      ? { key: issue.keys[1], value: report.fixes[issue.keys[1]] }
+                      : null,
+                  })),
+                  suggestedFixes: report.fixes,
+                  unresolved: report.unresolved,
+                  skipped: report.skipped.map(s => `${s.set} (unknown: ${s.missing.join(', ')})`),
+                  message: report.issues.length === 0
+                    ? `✅ All ${report.checked} pairs stay distinguishable for ${report.deficiencies.join(', ')}`
+                    : `⚠️ ${report.issues.length} of ${report.checked} pairs are hard to tell apart. Apply suggestedFixes with applyTransaction (or try them with previewColors first)`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'comparePalette': {
+        // Report key pairs whose colors are perceptually (nearly) the same
+        const method = parseDeltaEMethod(args?.method) ?? 'ciede2000';
+        const threshold = typeof args?.threshold === 'number' ? args.threshold : DEFAULT_DUPLICATE_DELTA_E;
+        const scope = {
+          target: args?.target as ConfigurationTarget | undefined,
+          themeScope: args?.themeScope as string | undefined,
+          folderUri: args?.folderUri as string | undefined,
+        };
+
+        let colors: ColorMap;
+        let source: string;
+        if (args?.colors && typeof args.colors === 'object') {
+          colors = args.colors as ColorMap;
+          source = 'colors';
+        } else if (typeof args?.group === 'string') {
+          const group = await readGroup(args.group, scope);
+          colors = {};
+          for (const [key, color] of Object.entries(group.colors)) {
+            if (color.effectiveValue) {
+              colors[key] = color.effectiveValue;
+            }
+          }
+          source = `group ${args.group}`;
+        } else {
+          colors = await bridge.getCurrentColors(scope);
+          source = 'customizations';
+        }
+        for (const [key, value] of Object.entries(colors)) {
+          if (!colorManipulator.isValidColor(value)) {
+            throw new Error(`Invalid color value for ${key}: ${value}. Must be a valid hex color (e.g., "#ff00ff")`);
+          }
+        }
+
+        const duplicates = findNearDuplicates(colors, threshold, method);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  source,
+                  method,
+                  threshold,
+                  compared: Object.keys(colors).length,
+                  nearDuplicates: duplicates,
+                  message: duplicates.length === 0
+                    ? `✅ No two of ${Object.keys(colors).length} colors are closer than Delta E ${threshold}`
+                    : `⚠️ ${duplicates.length} pairs are hard to tell apart (${duplicates.filter(d => d.deltaE === 0).length} identical). Surfaces can be moved apart with separateSurfaces`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'separateSurfaces': {
+        // Nudge editor, sidebar, activity bar, panel and status bar apart
+        const method = parseDeltaEMethod(args?.method) ?? 'ciede2000';
+        const scope = {
+          target: args?.target as ConfigurationTarget | undefined,
+          themeScope: args?.themeScope as string | undefined,
+          folderUri: args?.folderUri as string | undefined,
+        };
+        const effective = await bridge.getEffectiveColors(SURFACE_KEYS, {
+          themeScope: scope.themeScope,
+          folderUri: scope.folderUri,
+        });
+        const separation = separateSurfaces(
+          effectiveColorMap(effective),
+          typeof args?.minimumDeltaE === 'number' ? args.minimumDeltaE : undefined,
+          method
+        );
+
+        // All surfaces go in one write, so a single undo reverts them
+        let applied: ThemeChange | undefined;
+        if (args?.apply !== false && Object.keys(separation.fixes).length > 0) {
+          const check = await enforceAccessibility(separation.fixes, scope);
+          await bridge.setColors(check.colors, scope, { tool: 'separateSurfaces', detail: `Delta E ${separation.minimumDeltaE}` });
+          applied = {
+            success: true,
+            changes: separation.adjustments.map(adjustment => ({
+              key: adjustment.key,
+              oldValue: adjustment.oldValue,
+              newValue: check.colors[adjustment.key],
+              reason: `Too close to ${adjustment.closest} (Delta E ${adjustment.deltaEBefore})`,
+            })),
+            accessibility: check.accessibility,
+          };
+        }
+
+        const moved = separation.adjustments.length;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  theme: effective.theme,
+                  method,
+                  minimumDeltaE: separation.minimumDeltaE,
+                  surfaces: separation.surfaces,
+                  adjustments: separation.adjustments,
+                  unresolved: separation.unresolved,
+                  applied: applied ?? null,
+                  message: moved === 0 && separation.unresolved.length === 0
+                    ? `✅ All ${separation.surfaces.length} surfaces are at least Delta E ${separation.minimumDeltaE} apart`
+                    : applied
+                      ? `🔧 Moved ${moved} surfaces apart${separation.unresolved.length > 0 ? `; could not separate ${separation.unresolved.join(', ')}` : ''}`
+                      : moved > 0
+                        ? `⚠️ ${moved} surfaces are too close to another. Run again with apply: true to move them`
+                        : `⚠️ Could not separate ${separation.unresolved.join(', ')}; the other surfaces use up the lightness range`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'createCustomMood': {
+        // Create and apply custom mood preset
+        if (!args) throw new Error('Missing arguments for createCustomMood');
+        const roles = args.roles === undefined ? {} : parseRoles(args.roles);
+        const baseColor = (args.baseColor as string | undefined) ?? roles.primary;
+        if (!baseColor) {
+          throw new Error('Provide baseColor or roles.primary');
+        }
+        const name = (args.name as string) || 'Custom Mood';
+        assertCustomMoodName(name);
+        const requestedVariant = parseVariant(args.variant);
+        const variant = requestedVariant ?? (await bridge.getActiveTheme()).kind;
+
+        const preset = MoodPresetsManager.createCustomMood(
+          name,
+          baseColor,
+          undefined,
+          parseColorSpace(args.colorSpace),
+          Object.keys(roles).length > 0 ? roles : undefined,
+          variant
+        );
+        if (!preset) {
+          throw new Error(`Invalid base color: ${baseColor}`);
+        }
+
+        // Brand colors are used as given, so refuse pairs that can't be read
+        assertRoleContrast(preset);
+
+        // Apply the custom mood
+        const scope: ColorScope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+        const { check, tokenRules } = await applyMood(preset, scope, 'createCustomMood', args.includeSyntax !== false);
+
+        // Keep it, so applyMoodPreset can bring it back by name (following the
+        // active theme's kind unless a variant was asked for)
+        await bridge.saveCustomMood({
+          name: preset.name,
+          tool: 'createCustomMood',
+          arguments: moodArguments(args),
+          preset: { ...preset, variant: requestedVariant, colors: {} },
+          colors: preset.colors,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  preset: preset.name,
+                  baseColor,
+                  variant,
+                  roles: preset.roles ?? null,
+                  colorsApplied: Object.keys(check.colors).length,
+                  tokenRulesApplied: tokenRules.length,
+                  accessibility: check.accessibility,
+                  saved: true,
+                  message: `${preset.emoji} Custom mood "${preset.name}" created, applied and saved!`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'extractPaletteFromImage': {
+        // Quantize the image and suggest roles, without changing anything
+        if (!args) throw new Error('Missing arguments for extractPaletteFromImage');
+        const palette = await readImagePalette(args.path as string, args.count);
+        const roles = assignRoles(palette, args.kind === 'light' || args.kind === 'dark' ? args.kind : undefined);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  image: path.basename(args.path as string),
+                  palette,
+                  roles,
+                  message: `🖼️ Found ${palette.length} dominant colors. Apply them with themeFromImage, or pass roles.accent as baseColor to createCustomMood`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'themeFromImage': {
+        // Extract a palette, map it to roles and apply it as a mood
+        if (!args) throw new Error('Missing arguments for themeFromImage');
+        const imagePath = args.path as string;
+        const palette = await readImagePalette(imagePath, args.count);
+        const roles = assignRoles(palette, args.kind === 'light' || args.kind === 'dark' ? args.kind : undefined);
+        const moodName = (args.name as string) || path.basename(imagePath, path.extname(imagePath));
+        assertCustomMoodName(moodName);
+        const preset = MoodPresetsManager.createFromPalette(
+          moodName,
+          roles,
+          `Custom mood from ${path.basename(imagePath)}`,
+          parseColorSpace(args.colorSpace)
+        );
+
+        const scope: ColorScope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+        const { check, tokenRules } = await applyMood(preset, scope, 'themeFromImage', args.includeSyntax !== false);
+
+        await bridge.saveCustomMood({
+          name: preset.name,
+          tool: 'themeFromImage',
+          arguments: moodArguments(args),
+          preset: { ...preset, colors: {} },
+          colors: preset.colors,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  preset: preset.name,
+                  palette,
+                  roles,
+                  colorsApplied: Object.keys(check.colors).length,
+                  tokenRulesApplied: tokenRules.length,
+                  accessibility: check.accessibility,
+                  saved: true,
+                  message: `${preset.emoji} ${roles.kind === 'dark' ? 'Dark' : 'Light'} theme from ${path.basename(imagePath)} applied and saved as "${preset.name}"!`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'updateMood': {
+        // Regenerate a saved mood from its stored definition plus the changes
+        if (!args) throw new Error('Missing arguments for updateMood');
+        const moodName = args.name as string;
+        const moods = await bridge.listCustomMoods();
+        const mood = moods.find(m => m.name.toLowerCase() === moodName?.toLowerCase());
+        if (!mood) {
+          throw new Error(`Custom mood "${moodName}" not found. Available custom moods: ${moods.map(m => m.name).join(', ') || 'none'}`);
+        }
+
+        const preset = MoodPresetsManager.updateCustomMood(mood.preset, {
+          description: args.description as string | undefined,
+          baseColor: args.baseColor as string | undefined,
+          colorSpace: parseColorSpace(args.colorSpace),
+          roles: args.roles === undefined ? undefined : parseRoles(args.roles, true),
+          variant: parseVariant(args.variant),
+        });
+        if (!preset) {
+          throw new Error(`Invalid base color: ${args.baseColor}`);
+        }
+        assertRoleContrast(preset);
+
+        const saved = await bridge.saveCustomMood({
+          name: mood.name,
+          tool: mood.tool,
+          arguments: {
+            ...mood.arguments,
+            ...moodArguments(args),
+            ...(args.roles !== undefined ? { roles: preset.roles } : {}),
+          },
+          preset: { ...preset, colors: {} },
+          colors: preset.colors,
+        });
+
+        let applied: { colorsApplied: number; tokenRulesApplied: number; accessibility: PolicyCheck['accessibility'] } | undefined;
+        if (args.apply === true) {
+          const scope: ColorScope = {
+            target: args.target as ConfigurationTarget | undefined,
+            themeScope: args.themeScope as string | undefined,
+            folderUri: args.folderUri as string | undefined,
+          };
+          const { check, tokenRules } = await applyMood(preset, scope, 'updateMood', args.includeSyntax !== false);
+          applied = { colorsApplied: Object.keys(check.colors).length, tokenRulesApplied: tokenRules.length, accessibility: check.accessibility };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  mood: saved.name,
+                  description: preset.description,
+                  variant: preset.variant ?? 'dark',
+                  roles: preset.roles ?? null,
+                  updatedAt: saved.updatedAt,
+                  ...(applied ?? { applied: false }),
+                  message: `${preset.emoji} Custom mood "${saved.name}" updated${applied ? ' and applied' : ''}`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'renameMood': {
+        if (!args) throw new Error('Missing arguments for renameMood');
+        const newName = (args.newName as string | undefined)?.trim();
+        if (!newName) {
+          throw new Error('newName must not be empty');
+        }
+        assertCustomMoodName(newName);
+        const renamed = await bridge.renameCustomMood(args.name as string, newName);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  from: args.name,
+                  to: renamed.name,
+                  message: `Custom mood "${args.name}" renamed to "${renamed.name}"`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'deleteMood': {
+        if (!args) throw new Error('Missing arguments for deleteMood');
+        const moodName = args.name as string;
+        const deleted = await bridge.deleteCustomMood(moodName);
+        if (!deleted && MoodPresetsManager.isBuiltIn(moodName)) {
+          throw new Error(`"${moodName}" is a built-in mood preset and can't be deleted`);
+        }
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({ groups }, null, 2),
+              text: JSON.stringify(
+                {
+                  success: deleted,
+                  message: deleted ? `Custom mood "${moodName}" deleted` : `No custom mood named "${moodName}"`,
+                },
+                null,
+                2
+              ),
             },
           ],
         };
       }
 
-      case 'getColorsInGroup': {
-        // Get all colors in a specific group with current values
-        if (!args) throw new Error('Missing arguments for getColorsInGroup');
-        const groupId = args.group as string;
-
-        const group = colorGroups[groupId];
-        if (!group) {
-          throw new Error(`Unknown color group: ${groupId}. Available groups: ${Object.keys(colorGroups).join(', ')}`);
-        }
+      case 'undo':
+      case 'redo': {
+        // Walk the extension host's change journal backwards or forwards
+        const target = args?.target as ConfigurationTarget | undefined;
+        const entry = name === 'undo' ? await bridge.undo(target) : await bridge.redo(target);
 
-        // Use bridge to get current colors from VSCode
-        const currentColors = await bridge.getCurrentColors();
-        const colors: Record<string, string | undefined> = {};
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                entry
+                  ? {
+                      success: true,
+                      reverted: name === 'undo',
+                      entry,
+                      message: `${name === 'undo' ? 'Reverted' : 'Re-applied'} ${describeHistoryEntry(entry)} (${entry.changes.length} keys${entry.tokenColors ? ' and syntax rules' : ''})`,
+                    }
+                  : {
+                      success: false,
+                      message: `Nothing to ${name}`,
+                    },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
 
-        // Map group keys to their current values
-        for (const key of group.keys) {
-          colors[key] = currentColors[key];
-        }
+      case 'listHistory': {
+        // Summarise both stacks so the assistant can explain what undo/redo would do
+        const target = args?.target as ConfigurationTarget | undefined;
+        const limit = (args?.limit as number) || 10;
+        const history = await bridge.listHistory(target, limit);
+        const summarise = (entry: HistoryEntry) => ({
+          id: entry.id,
+          description: describeHistoryEntry(entry),
+          timestamp: entry.timestamp,
+          keysChanged: entry.changes.map(c => c.key),
+        });
 
         return {
           content: [
@@ -324,9 +2389,9 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  group: group.name,
-                  description: group.description,
-                  colors,
+                  target: target ?? 'Global',
+                  undo: history.undo.map(summarise),
+                  redo: history.redo.map(summarise),
                 },
                 null,
                 2
@@ -336,22 +2401,70 @@ async function main() {
         };
       }
 
-      case 'setColor': {
-        // Set a specific color key to a new value
-        if (!args) throw new Error('Missing arguments for setColor');
-        const key = args.key as string;
-        const value = args.value as string;
+      case 'saveSnapshot': {
+        // Save current customizations under a name
+        if (!args) throw new Error('Missing arguments for saveSnapshot');
+        const snapshot = await bridge.saveSnapshot(
+          args.name as string,
+          args.description as string | undefined,
+          args.overwrite as boolean | undefined,
+          {
+            target: args.target as ConfigurationTarget | undefined,
+            themeScope: args.themeScope as string | undefined,
+            folderUri: args.folderUri as string | undefined,
+          }
+        );
 
-        // Validate color format before sending to VSCode
-        if (!colorManipulator.isValidColor(value)) {
-          throw new Error(`Invalid color value: ${value}. Must be a valid hex color (e.g., "#ff00ff")`);
-        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  snapshot,
+                  message: `Saved ${snapshot.keyCount} color customizations as "${snapshot.name}"`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'listSnapshots': {
+        // List saved snapshots
+        const snapshots = await bridge.listSnapshots();
 
-        // Get old value via bridge (for logging/response)
-        const oldValue = await bridge.getColor(key);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  snapshots,
+                  count: snapshots.length,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
 
-        // Set new color via bridge
-        await bridge.setColor(key, value);
+      case 'restoreSnapshot': {
+        // Replace current customizations with a snapshot
+        if (!args) throw new Error('Missing arguments for restoreSnapshot');
+        const snapshotName = args.name as string;
+        const target = args.target as ConfigurationTarget | undefined;
+        const themeScope = args.themeScope as string | undefined;
+        const changes = await bridge.restoreSnapshot(
+          snapshotName,
+          { target, themeScope, folderUri: args.folderUri as string | undefined },
+          { tool: 'restoreSnapshot', detail: snapshotName }
+        );
 
         return {
           content: [
@@ -360,10 +2473,9 @@ async function main() {
               text: JSON.stringify(
                 {
                   success: true,
-                  key,
-                  oldValue: oldValue || null,
-                  newValue: value,
-                  message: `Color '${key}' updated successfully`,
+                  snapshot: snapshotName,
+                  changes,
+                  message: `Restored snapshot "${snapshotName}" (${changes.length} keys changed)`,
                 },
                 null,
                 2
@@ -373,13 +2485,11 @@ async function main() {
         };
       }
 
-      case 'getColor': {
-        // Get the current value of a specific color key
-        if (!args) throw new Error('Missing arguments for getColor');
-        const key = args.key as string;
-
-        // Get color via bridge
-        const value = await bridge.getColor(key);
+      case 'deleteSnapshot': {
+        // Delete a saved snapshot
+        if (!args) throw new Error('Missing arguments for deleteSnapshot');
+        const snapshotName = args.name as string;
+        const deleted = await bridge.deleteSnapshot(snapshotName);
 
         return {
           content: [
@@ -387,9 +2497,8 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  key,
-                  value: value || null,
-                  isSet: value !== undefined,
+                  success: deleted,
+                  message: deleted ? `Deleted snapshot "${snapshotName}"` : `No snapshot named "${snapshotName}"`,
                 },
                 null,
                 2
@@ -399,9 +2508,16 @@ async function main() {
         };
       }
 
-      case 'resetColors': {
-        // Reset all color customizations to theme defaults
-        await bridge.resetAllColors();
+      case 'diffSnapshots': {
+        // Compare snapshots key by key
+        if (!args) throw new Error('Missing arguments for diffSnapshots');
+        const from = args.from as string;
+        const to = args.to as string | undefined;
+        const changes = await bridge.diffSnapshots(from, to, {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        });
 
         return {
           content: [
@@ -409,8 +2525,10 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  success: true,
-                  message: 'All color customizations reset to theme defaults',
+                  from,
+                  to: to ?? 'current colors',
+                  changes,
+                  count: changes.length,
                 },
                 null,
                 2
@@ -420,14 +2538,30 @@ async function main() {
         };
       }
 
-      case 'listMoodPresets': {
-        // List all available mood presets
-        const presets = MoodPresetsManager.getAllPresets();
-        const presetList = presets.map(p => ({
-          name: p.name,
-          description: p.description,
-          emoji: p.emoji,
-        }));
+      case 'exportTheme': {
+        // Build a standalone theme from current customizations + active theme kind
+        if (!args) throw new Error('Missing arguments for exportTheme');
+        const themeName = args.name as string;
+        const outputPath = args.outputPath as string;
+        if (!path.isAbsolute(outputPath)) {
+          throw new Error(`outputPath must be absolute: ${outputPath}`);
+        }
+
+        const scope: ColorScope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+        const [colors, activeTheme, tokenColors] = await Promise.all([
+          bridge.getCurrentColors(scope),
+          bridge.getActiveTheme(),
+          bridge.getTokenColors(scope),
+        ]);
+        const theme = ThemeExporter.buildTheme(themeName, activeTheme.kind, colors, tokenColors);
+
+        const files = args.scaffold
+          ? (await ThemeExporter.scaffoldExtension(theme, outputPath, args.publisher as string | undefined)).files
+          : [await ThemeExporter.writeTheme(theme, outputPath)];
 
         return {
           content: [
@@ -435,8 +2569,15 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  presets: presetList,
-                  count: presetList.length,
+                  success: true,
+                  name: theme.name,
+                  type: theme.type,
+                  baseTheme: activeTheme.name,
+                  customizedKeys: Object.keys(colors).length,
+                  totalKeys: Object.keys(theme.colors).length,
+                  tokenRules: theme.tokenColors.length,
+                  files,
+                  message: `Exported "${theme.name}" to ${files[0]}`,
                 },
                 null,
                 2
@@ -446,19 +2587,42 @@ async function main() {
         };
       }
 
-      case 'applyMoodPreset': {
-        // Apply a mood preset
-        if (!args) throw new Error('Missing arguments for applyMoodPreset');
-        const presetName = args.name as string;
+      case 'importTheme': {
+        // Parse the theme (following includes) and save it as a custom mood
+        if (!args) throw new Error('Missing arguments for importTheme');
+        const themePath = args.path as string;
+        if (!path.isAbsolute(themePath)) {
+          throw new Error(`path must be absolute: ${themePath}`);
+        }
 
-        const preset = MoodPresetsManager.getPreset(presetName);
-        if (!preset) {
-          const available = MoodPresetsManager.getAllPresets().map(p => p.name).join(', ');
-          throw new Error(`Unknown mood preset: ${presetName}. Available: ${available}`);
+        const theme = await ThemeLoader.load(themePath);
+        const presetName = (args.name as string) || theme.name || path.basename(themePath, '.json');
+
+        // Never shadow another preset by accident; only a saved custom mood may be replaced
+        await loadMoodPresets();
+        const existing = MoodPresetsManager.getPreset(presetName);
+        if (existing && !(existing.source === 'custom' && args.overwrite === true)) {
+          throw new Error(existing.source === 'custom'
+            ? `Custom mood "${existing.name}" already exists. Pass overwrite: true to replace it, or choose another name`
+            : `"${existing.name}" is already a ${existing.source ? `mood preset from ${existing.source}` : 'built-in mood preset'}. Choose another name`);
         }
 
-        // Apply all colors via bridge
-        await bridge.setColors(preset.colors);
+        const preset = MoodPresetsManager.createFromThemeColors(
+          presetName,
+          theme.colors,
+          `Imported from ${path.basename(themePath)}`,
+          theme.tokenColors.length > 0 ? theme.tokenColors : undefined
+        );
+        // The theme's own colors are part of the definition, so the preset keeps them
+        await bridge.saveCustomMood({
+          name: preset.name,
+          tool: 'importTheme',
+          arguments: moodArguments(args),
+          preset,
+          colors: preset.colors,
+        });
+        notifyListChanged();
+        notifyUpdated(uri => uri === resourceUri('presets', preset.name));
 
         return {
           content: [
@@ -468,10 +2632,13 @@ async function main() {
                 {
                   success: true,
                   preset: preset.name,
-                  description: preset.description,
-                  emoji: preset.emoji,
-                  colorsApplied: Object.keys(preset.colors).length,
-                  message: `${preset.emoji} ${preset.name} theme applied! ${preset.description}`,
+                  baseHue: preset.baseHue,
+                  saturation: preset.saturation,
+                  brightness: preset.brightness,
+                  colorsImported: Object.keys(theme.colors).length,
+                  tokenRulesImported: theme.tokenColors.length,
+                  filesRead: theme.files,
+                  message: `${preset.emoji} Imported "${preset.name}". Apply it with applyMoodPreset.`,
                 },
                 null,
                 2
@@ -481,16 +2648,13 @@ async function main() {
         };
       }
 
-      case 'generateColorHarmony': {
-        // Generate color harmony from base color
-        if (!args) throw new Error('Missing arguments for generateColorHarmony');
-        const baseColor = args.baseColor as string;
-        const harmonyType = args.harmonyType as 'analogous' | 'complementary' | 'triadic' | 'tetradic' | 'split-complementary' | 'square';
-
-        const harmony = AdvancedColorOps.generateHarmony(baseColor, harmonyType);
-        if (!harmony) {
-          throw new Error(`Invalid base color: ${baseColor}`);
-        }
+      case 'getTokenColors': {
+        // Read both kinds of syntax customizations
+        const tokenColors = await bridge.getTokenColors({
+          target: args?.target as ConfigurationTarget | undefined,
+          themeScope: args?.themeScope as string | undefined,
+          folderUri: args?.folderUri as string | undefined,
+        });
 
         return {
           content: [
@@ -498,10 +2662,9 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  harmonyType: harmony.name,
-                  baseColor,
-                  colors: harmony.colors,
-                  count: harmony.colors.length,
+                  ...tokenColors,
+                  textMateRuleCount: tokenColors.textMateRules.length,
+                  semanticRuleCount: Object.keys(tokenColors.semanticTokenRules).length,
                 },
                 null,
                 2
@@ -511,16 +2674,39 @@ async function main() {
         };
       }
 
-      case 'generateGradient': {
-        // Generate color gradient
-        if (!args) throw new Error('Missing arguments for generateGradient');
-        const startColor = args.startColor as string;
-        const endColor = args.endColor as string;
-        const steps = (args.steps as number) || 10;
+      case 'setTokenColor': {
+        // Set one TextMate rule or semantic selector
+        if (!args) throw new Error('Missing arguments for setTokenColor');
+        const scope = args.scope as string;
+        const foreground = args.foreground as string | undefined;
+        const fontStyle = args.fontStyle as string | undefined;
+        const colorScope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
 
-        const gradient = AdvancedColorOps.generateGradient(startColor, endColor, steps);
-        if (gradient.length === 0) {
-          throw new Error(`Invalid colors or steps: ${startColor}, ${endColor}, ${steps}`);
+        if (foreground === undefined && fontStyle === undefined) {
+          throw new Error('Provide at least one of foreground or fontStyle');
+        }
+        if (foreground !== undefined && !colorManipulator.isValidColor(foreground)) {
+          throw new Error(`Invalid color value: ${foreground}. Must be a valid hex color (e.g., "#ff00ff")`);
+        }
+
+        const settings = {
+          ...(foreground !== undefined ? { foreground } : {}),
+          ...(fontStyle !== undefined ? { fontStyle } : {}),
+        };
+
+        if (args.semantic) {
+          await bridge.setTokenColors({ semanticTokenRules: { [scope]: settings } }, colorScope, { tool: 'setTokenColor', detail: scope });
+        } else {
+          const scopes = scope.split(',').map(s => s.trim()).filter(s => s.length > 0);
+          await bridge.setTokenColors(
+            { textMateRules: [{ scope: scopes.length === 1 ? scopes[0] : scopes, settings }] },
+            colorScope,
+            { tool: 'setTokenColor', detail: scope }
+          );
         }
 
         return {
@@ -529,10 +2715,11 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  startColor,
-                  endColor,
-                  steps,
-                  gradient,
+                  success: true,
+                  scope,
+                  kind: args.semantic ? 'semantic' : 'textMate',
+                  settings,
+                  message: `Syntax color for '${scope}' updated successfully`,
                 },
                 null,
                 2
@@ -542,16 +2729,40 @@ async function main() {
         };
       }
 
-      case 'adjustColorTemperature': {
-        // Adjust color temperature
-        if (!args) throw new Error('Missing arguments for adjustColorTemperature');
-        const color = args.color as string;
-        const amount = args.amount as number;
+      case 'resetTokenColors': {
+        // Remove all syntax customizations
+        await bridge.resetTokenColors({
+          target: args?.target as ConfigurationTarget | undefined,
+          themeScope: args?.themeScope as string | undefined,
+          folderUri: args?.folderUri as string | undefined,
+        }, { tool: 'resetTokenColors' });
 
-        const adjusted = AdvancedColorOps.adjustTemperature(color, amount);
-        if (!adjusted) {
-          throw new Error(`Invalid color: ${color}`);
-        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  message: 'All syntax color customizations reset to theme defaults',
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'listThemeScopes': {
+        // Report which "[Theme Name]" blocks exist and which apply right now
+        const [scopes, activeTheme] = await Promise.all([
+          bridge.listThemeScopes({
+            target: args?.target as ConfigurationTarget | undefined,
+            folderUri: args?.folderUri as string | undefined,
+          }),
+          bridge.getActiveTheme(),
+        ]);
 
         return {
           content: [
@@ -559,10 +2770,9 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  originalColor: color,
-                  adjustedColor: adjusted,
-                  temperatureChange: amount,
-                  direction: amount > 0 ? 'warmer' : 'cooler',
+                  activeTheme: activeTheme.name,
+                  scopes,
+                  count: scopes.length,
                 },
                 null,
                 2
@@ -572,14 +2782,53 @@ async function main() {
         };
       }
 
-      case 'ensureReadableColor': {
-        // Ensure color readability
-        if (!args) throw new Error('Missing arguments for ensureReadableColor');
-        const foreground = args.foreground as string;
-        const background = args.background as string;
-        const targetRatio = (args.targetRatio as number) || 4.5;
+      case 'applyTransaction': {
+        // All-or-nothing batch of edits, serialised with every other write
+        if (!args) throw new Error('Missing arguments for applyTransaction');
+        const operations = args.operations as TransactionOperation[];
+        if (!Array.isArray(operations) || operations.length === 0) {
+          throw new Error('operations must be a non-empty array');
+        }
+        for (const operation of operations) {
+          const color = operation.op === 'set' ? operation.value
+            : operation.op === 'setTokenColor' ? operation.foreground
+            : undefined;
+          if (color !== undefined && !colorManipulator.isValidColor(color)) {
+            throw new Error(`Invalid color value: ${color}. Must be a valid hex color (e.g., "#ff00ff")`);
+          }
+        }
 
-        const readable = AdvancedColorOps.ensureReadability(foreground, background, targetRatio);
+        const scope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+
+        // Check the final value of every key the transaction sets
+        const proposed: ColorMap = {};
+        for (const operation of operations) {
+          if (operation.op === 'set' && operation.value) {
+            proposed[operation.key] = operation.value;
+          }
+        }
+        const check = await enforceAccessibility(proposed, scope);
+
+        // autoFix: use adjusted values, and set adjusted foregrounds the batch didn't touch
+        const guarded: TransactionOperation[] = operations.map(operation =>
+          operation.op === 'set' && check.fixes[operation.key] ? { ...operation, value: check.fixes[operation.key] } : operation
+        );
+        for (const [key, value] of Object.entries(check.colors)) {
+          if (!(key in proposed)) {
+            guarded.push({ op: 'set', key, value });
+          }
+        }
+
+        const result = await bridge.transaction(
+          guarded,
+          scope,
+          { tool: 'applyTransaction', detail: args.description as string | undefined }
+        );
+        const failed = result.results.find(r => r.status === 'failed');
 
         return {
           content: [
@@ -587,12 +2836,12 @@ async function main() {
               type: 'text',
               text: JSON.stringify(
                 {
-                  originalForeground: foreground,
-                  adjustedForeground: readable,
-                  background,
-                  targetRatio,
-                  wcagLevel: targetRatio >= 7 ? 'AAA' : 'AA',
-                  wasAdjusted: foreground !== readable,
+                  success: result.committed,
+                  ...result,
+                  accessibility: check.accessibility,
+                  message: result.committed
+                    ? `Applied ${operations.length} operations (${result.changes.length} colors changed${result.tokenColorsChanged ? ', syntax rules updated' : ''})`
+                    : `Nothing was applied: operation ${failed?.index} (${failed?.op}) failed: ${failed?.error}`,
                 },
                 null,
                 2
@@ -602,19 +2851,32 @@ async function main() {
         };
       }
 
-      case 'createCustomMood': {
-        // Create and apply custom mood preset
-        if (!args) throw new Error('Missing arguments for createCustomMood');
-        const baseColor = args.baseColor as string;
-        const name = (args.name as string) || 'Custom Mood';
-
-        const preset = MoodPresetsManager.createCustomMood(name, baseColor);
-        if (!preset) {
-          throw new Error(`Invalid base color: ${baseColor}`);
+      case 'previewColors': {
+        // Apply temporarily; the extension host reverts unless confirmed
+        if (!args) throw new Error('Missing arguments for previewColors');
+        const colors = args.colors as Record<string, string>;
+        if (!colors || typeof colors !== 'object' || Object.keys(colors).length === 0) {
+          throw new Error('colors must be a non-empty map of color keys to hex values');
+        }
+        for (const [key, value] of Object.entries(colors)) {
+          if (!colorManipulator.isValidColor(value)) {
+            throw new Error(`Invalid color value for ${key}: ${value}. Must be a valid hex color (e.g., "#ff00ff")`);
+          }
         }
 
-        // Apply the custom mood
-        await bridge.setColors(preset.colors);
+        const scope = {
+          target: args.target as ConfigurationTarget | undefined,
+          themeScope: args.themeScope as string | undefined,
+          folderUri: args.folderUri as string | undefined,
+        };
+        const check = await enforceAccessibility(colors, scope);
+
+        const status = await bridge.previewColors(
+          check.colors,
+          args.durationSeconds as number | undefined,
+          scope,
+          { tool: 'previewColors' }
+        );
 
         return {
           content: [
@@ -623,10 +2885,34 @@ async function main() {
               text: JSON.stringify(
                 {
                   success: true,
-                  preset: preset.name,
-                  baseColor,
-                  colorsApplied: Object.keys(preset.colors).length,
-                  message: `${preset.emoji} Custom mood "${preset.name}" created and applied!`,
+                  preview: status,
+                  accessibility: check.accessibility,
+                  message: `Previewing ${status.keys.length} colors; they revert in ${status.secondsLeft}s unless confirmed with confirmPreview`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'confirmPreview':
+      case 'cancelPreview': {
+        // Keep or drop the running preview
+        const changes = name === 'confirmPreview' ? await bridge.confirmPreview() : await bridge.cancelPreview();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  success: true,
+                  changes,
+                  message: name === 'confirmPreview'
+                    ? `Kept ${changes.length} previewed colors (use undo to revert)`
+                    : changes.length > 0 ? `Reverted ${changes.length} previewed colors` : 'No color preview was running',
                 },
                 null,
                 2
@@ -641,11 +2927,144 @@ async function main() {
     }
   });
 
+  /**
+   * Resources
+   *
+   * Read through the bridge on demand; subscriptions are tracked here and fed by
+   * the bridge event stream, so edits made by hand or by other extensions are
+   * reported too.
+   */
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const [snapshots] = await Promise.all([bridge.listSnapshots(), loadMoodPresets()]);
+    return {
+      resources: [
+        ...RESOURCES,
+        ...Object.entries(colorGroups).map(([id, group]) => ({
+          uri: resourceUri('groups', id),
+          name: `Color group: ${group.name}`,
+          description: group.description,
+          mimeType: 'application/json',
+        })),
+        ...MoodPresetsManager.getAllPresets().map(preset => ({
+          uri: resourceUri('presets', preset.name),
+          name: `Mood preset: ${preset.emoji} ${preset.name}`,
+          description: preset.description,
+          mimeType: 'application/json',
+        })),
+        ...snapshots.map(snapshot => ({
+          uri: resourceUri('snapshots', snapshot.name),
+          name: `Snapshot: ${snapshot.name}`,
+          description: snapshot.description ?? `${snapshot.keyCount} colors saved ${snapshot.createdAt}`,
+          mimeType: 'application/json',
+        })),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const templated = /^theme:\/\/(groups|presets|snapshots)\/(.+)$/.exec(uri);
+    let content: unknown;
+
+    if (uri === 'theme://current/colors') {
+      content = await bridge.getCurrentColors();
+    } else if (uri === 'theme://current/token-colors') {
+      content = await bridge.getTokenColors();
+    } else if (uri === 'theme://active-theme') {
+      content = await bridge.getActiveTheme();
+    } else if (templated?.[1] === 'groups') {
+      content = await readGroup(decodeURIComponent(templated[2]));
+    } else if (templated?.[1] === 'presets') {
+      const presetName = decodeURIComponent(templated[2]);
+      await loadMoodPresets();
+      const preset = MoodPresetsManager.getPreset(presetName);
+      if (!preset) {
+        const available = MoodPresetsManager.getAllPresets().map(p => p.name).join(', ');
+        throw new Error(`Unknown preset: ${presetName}. Available presets: ${available}`);
+      }
+      content = {
+        ...preset,
+        tokenColors: preset.tokenColors ?? MoodPresetsManager.generateTokenColors(preset),
+        semanticTokenRules: MoodPresetsManager.generateSemanticTokenRules(preset),
+      };
+    } else if (templated?.[1] === 'snapshots') {
+      content = await bridge.getSnapshot(decodeURIComponent(templated[2]));
+    } else {
+      const known = [...RESOURCES.map(r => r.uri), ...RESOURCE_TEMPLATES.map(t => t.uriTemplate)];
+      throw new Error(`Unknown resource: ${uri}. Available: ${known.join(', ')}`);
+    }
+
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(content, null, 2) }],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  /**
+   * Prompts
+   *
+   * Parameterised instructions for common workflows; expanding one only builds
+   * text, the assistant then calls the tools it names.
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS,
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const prompt = expandPrompt(request.params.name, request.params.arguments ?? {}, colorGroups);
+    return { description: prompt.description, messages: prompt.messages };
+  });
+
+  const notifyUpdated = (affected: (uri: string) => boolean) => {
+    for (const uri of subscriptions) {
+      if (affected(uri)) {
+        server.sendResourceUpdated({ uri }).catch(error => {
+          console.error(`Failed to send update for ${uri}:`, error instanceof Error ? error.message : error);
+        });
+      }
+    }
+  };
+
+  const notifyListChanged = () => {
+    server.sendResourceListChanged().catch(error => {
+      console.error('Failed to send resource list change:', error instanceof Error ? error.message : error);
+    });
+  };
+
   // Start MCP server with stdio transport
   // This connects to GitHub Copilot via stdin/stdout
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
+  // Changes missed while the stream was down could have touched anything
+  bridge.subscribe(
+    event => {
+      notifyUpdated(uri => isAffectedBy(uri, event));
+      if (event.type === 'snapshotsChanged' || event.type === 'moodPresetsChanged' || event.type === 'customMoodsChanged') {
+        notifyListChanged();
+      }
+    },
+    () => {
+      notifyUpdated(() => true);
+      notifyListChanged();
+    }
+  );
+
   // Log to stderr (stdout is used for MCP protocol)
   console.error('8b-Theme-MCP standalone server started via HTTP bridge');
   console.error(`Bridge URL: ${process.env.BRIDGE_PORT ? `http://127.0.0.1:${process.env.BRIDGE_PORT}` : 'NOT SET'}`);
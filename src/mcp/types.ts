@@ -7,7 +7,7 @@ export interface ThemeChange {
   changes: {
     key: string;
     oldValue?: string;
-    newValue: string;
+    newValue?: string;                 // undefined when the key was removed
     reason: string;
   }[];
   accessibility?: {
@@ -26,3 +26,8 @@ export interface ColorKeyInfo {
   currentValue?: string;
   group: string;
 }
+
+/**
+ * A single key-level change, as reported in ThemeChange.changes
+ */
+export type ColorChange = ThemeChange['changes'][number];
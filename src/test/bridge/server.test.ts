@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import type * as vscode from 'vscode';
+import { BridgeServer } from '../../bridge/server';
+import { BRIDGE_MAX_BODY_BYTES, BRIDGE_TOKEN_HEADER, BridgeRequest, ThemeSnapshotSummary, TokenColorCustomizations } from '../../bridge/protocol';
+import { createExtensionContext, resetSettings } from '../vscode';
+
+const TOKEN = 'test-token';
+
+interface Reply {
+  status: number;
+  body: { result?: unknown; error?: string } | undefined;
+}
+
+describe('BridgeServer', () => {
+  let bridge: BridgeServer;
+  let port: number;
+  let nextId = 1;
+
+  /**
+   * POST to the bridge; headers override the defaults of a well-formed call
+   */
+  const post = (body: string | Buffer, headers: http.OutgoingHttpHeaders = {}): Promise<Reply> =>
+    new Promise((resolve, reject) => {
+      const merged: http.OutgoingHttpHeaders = {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body),
+        [BRIDGE_TOKEN_HEADER]: TOKEN,
+        ...headers,
+      };
+      // An undefined override leaves the header out
+      for (const [name, value] of Object.entries(merged)) {
+        if (value === undefined) {
+          delete merged[name];
+        }
+      }
+
+      const req = http.request({ host: '127.0.0.1', port, method: 'POST', agent: false, headers: merged }, res => {
+        let data = '';
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: data ? JSON.parse(data) : undefined }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  const call = async <T = unknown>(method: BridgeRequest['method'], params: unknown = {}): Promise<T> => {
+    const reply = await post(JSON.stringify({ id: `req-${nextId++}`, method, params }));
+    assert.strictEqual(reply.status, 200);
+    assert.strictEqual(reply.body?.error, undefined, reply.body?.error);
+    return reply.body?.result as T;
+  };
+
+  const validBody = () => JSON.stringify({ id: 'req-0', method: 'getCurrentColors', params: {} });
+
+  beforeEach(async () => {
+    resetSettings();
+    bridge = new BridgeServer(createExtensionContext() as unknown as vscode.ExtensionContext, TOKEN);
+    port = await bridge.start();
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+  });
+
+  describe('request checks', () => {
+    it('rejects a request without a token', async () => {
+      const reply = await post(validBody(), { [BRIDGE_TOKEN_HEADER]: undefined });
+      assert.strictEqual(reply.status, 401);
+    });
+
+    it('rejects a request with the wrong token', async () => {
+      const reply = await post(validBody(), { [BRIDGE_TOKEN_HEADER]: 'not-the-token' });
+      assert.strictEqual(reply.status, 401);
+    });
+
+    it('rejects a foreign Host header', async () => {
+      const reply = await post(validBody(), { Host: `attacker.example:${port}` });
+      assert.strictEqual(reply.status, 403);
+    });
+
+    it('rejects a request from a browser page', async () => {
+      const reply = await post(validBody(), { Origin: 'https://attacker.example' });
+      assert.strictEqual(reply.status, 403);
+    });
+
+    it('rejects a non-JSON content type', async () => {
+      const reply = await post(validBody(), { 'Content-Type': 'text/plain' });
+      assert.strictEqual(reply.status, 415);
+    });
+
+    it('rejects an oversized body', async () => {
+      const reply = await post(Buffer.alloc(BRIDGE_MAX_BODY_BYTES + 1, ' '));
+      assert.strictEqual(reply.status, 413);
+    });
+  });
+
+  describe('authenticated calls', () => {
+    it('writes and reads back a color', async () => {
+      await call('setColor', { key: 'editor.background', value: '#112233' });
+
+      const colors = await call('getCurrentColors');
+      assert.deepStrictEqual(colors, { 'editor.background': '#112233' });
+    });
+
+    it('keeps both snapshots saved by overlapping calls', async () => {
+      await call('setColor', { key: 'editor.background', value: '#112233' });
+      await Promise.all([
+        call('saveSnapshot', { name: 'first' }),
+        call('saveSnapshot', { name: 'second' }),
+      ]);
+
+      const names = (await call<ThemeSnapshotSummary[]>('listSnapshots')).map(snapshot => snapshot.name);
+      assert.deepStrictEqual(names.sort(), ['first', 'second']);
+    });
+
+    it('restores each snapshot color to the level it was saved from', async () => {
+      await call('setColor', { key: 'editor.background', value: '#112233', target: 'Workspace' });
+      await call('saveSnapshot', { name: 'layout' });
+      await call('setColor', { key: 'editor.background', value: '#445566', target: 'Workspace' });
+      await call('setColor', { key: 'sideBar.background', value: '#778899' });
+
+      await call('restoreSnapshot', { name: 'layout' });
+      assert.deepStrictEqual(await call('getCurrentColors', { target: 'Workspace' }), { 'editor.background': '#112233' });
+      assert.deepStrictEqual(await call('getCurrentColors', { target: 'Global' }), {});
+
+      await call('undo', { target: 'Workspace' });
+      assert.deepStrictEqual(await call('getCurrentColors', { target: 'Workspace' }), { 'editor.background': '#445566' });
+    });
+
+    it('refuses writes to a color that is being previewed', async () => {
+      await call('previewColors', { colors: { 'editor.background': '#445566' }, durationSeconds: 60 });
+
+      const reply = await post(JSON.stringify({
+        id: `req-${nextId++}`,
+        method: 'setColor',
+        params: { key: 'editor.background', value: '#112233' },
+      }));
+      assert.match(reply.body?.error ?? '', /Being previewed: editor\.background/);
+
+      await call('setColor', { key: 'sideBar.background', value: '#112233' });
+      await call('cancelPreview');
+      assert.deepStrictEqual(await call('getCurrentColors'), { 'sideBar.background': '#112233' });
+    });
+
+    it('undoes colors and syntax rules written by one transaction', async () => {
+      await call('setTokenColors', { textMateRules: [{ scope: 'comment', settings: { foreground: '#888888' } }] });
+      await call('transaction', {
+        operations: [
+          { op: 'set', key: 'editor.background', value: '#112233' },
+          { op: 'setTokenColor', scope: 'keyword', foreground: '#ff00ff' },
+        ],
+      });
+
+      await call('undo');
+      assert.deepStrictEqual(await call('getCurrentColors'), {});
+      assert.deepStrictEqual((await call<TokenColorCustomizations>('getTokenColors')).textMateRules, [
+        { scope: 'comment', settings: { foreground: '#888888' } },
+      ]);
+
+      await call('undo');
+      assert.deepStrictEqual((await call<TokenColorCustomizations>('getTokenColors')).textMateRules, []);
+    });
+  });
+});
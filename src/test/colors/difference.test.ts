@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { colorDifference, separateSurfaces } from '../../colors/difference';
+
+describe('separateSurfaces', () => {
+  it('moves a surface that is too close to the editor', () => {
+    const result = separateSurfaces({ 'editor.background': '#1e1e1e', 'sideBar.background': '#1e1e1e' });
+
+    assert.deepStrictEqual(Object.keys(result.fixes), ['sideBar.background']);
+    assert.ok(colorDifference('#1e1e1e', result.fixes['sideBar.background']) >= result.minimumDeltaE);
+    assert.deepStrictEqual(result.unresolved, []);
+  });
+
+  it('places fixed surfaces first and moves the others around them', () => {
+    const colors = {
+      'editor.background': '#000000',
+      'sideBar.background': '#303030',
+      'statusBar.background': '#303030',
+    };
+    const result = separateSurfaces(colors, undefined, undefined, undefined, ['statusBar.background']);
+
+    assert.deepStrictEqual(result.surfaces, ['editor.background', 'statusBar.background', 'sideBar.background']);
+    assert.deepStrictEqual(Object.keys(result.fixes), ['sideBar.background']);
+    const sideBar = result.fixes['sideBar.background'];
+    assert.ok(colorDifference('#303030', sideBar) >= result.minimumDeltaE);
+    assert.ok(colorDifference('#000000', sideBar) >= result.minimumDeltaE);
+  });
+
+  it('reports fixed surfaces that are too close to each other', () => {
+    const colors = {
+      'editor.background': '#1e1e1e',
+      'sideBar.background': '#606060',
+      'activityBar.background': '#1f1f1f',
+    };
+    const result = separateSurfaces(colors, undefined, undefined, undefined, ['activityBar.background']);
+
+    assert.deepStrictEqual(result.unresolved, ['editor.background', 'activityBar.background']);
+    assert.strictEqual(result.fixes['activityBar.background'], undefined);
+  });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { ColorManipulator } from '../../colors/manipulation';
+
+describe('ColorManipulator', () => {
+  const manipulator = new ColorManipulator();
+
+  describe('getAPCAContrast', () => {
+    // Reference values from the APCA-W3 0.0.98G-4g documentation
+    const vectors: [string, string, number][] = [
+      ['#888888', '#ffffff', 63.056469930209424],
+      ['#ffffff', '#888888', -68.54146436644962],
+      ['#000000', '#aaaaaa', 58.146262578561334],
+      ['#aaaaaa', '#000000', -56.24113336839742],
+    ];
+
+    for (const [text, background, expected] of vectors) {
+      it(`gives Lc ${expected.toFixed(2)} for ${text} on ${background}`, () => {
+        const lc = manipulator.getAPCAContrast(text, background);
+        assert.ok(Math.abs(lc - expected) < 0.01, `expected ${expected}, got ${lc}`);
+      });
+    }
+
+    it('is positive for dark text on light and negative for light text on dark', () => {
+      assert.ok(manipulator.getAPCAContrast('#000000', '#ffffff') > 0);
+      assert.ok(manipulator.getAPCAContrast('#ffffff', '#000000') < 0);
+    });
+
+    it('gives 0 for identical colors', () => {
+      assert.strictEqual(manipulator.getAPCAContrast('#777777', '#777777'), 0);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Mocha setup: resolve require('vscode') to the in-memory stand-in
+ *
+ * The real module only exists inside the extension host.
+ */
+import Module = require('module');
+
+const moduleWithResolver = Module as unknown as {
+  _resolveFilename(request: string, ...rest: unknown[]): string;
+};
+const resolveFilename = moduleWithResolver._resolveFilename;
+
+moduleWithResolver._resolveFilename = function (request: string, ...rest: unknown[]): string {
+  if (request === 'vscode') {
+    return require.resolve('./vscode');
+  }
+  return resolveFilename.call(this, request, ...rest);
+};
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { MoodPresetLoader } from '../../themes/MoodPresetLoader';
+
+describe('MoodPresetLoader', () => {
+  const file = 'presets.json';
+  const withColors = (colors: Record<string, string>) => JSON.stringify({
+    presets: [{ name: 'Acme', baseColor: '#0066ff', colors }],
+  });
+
+  it('accepts the hex forms VS Code settings accept', () => {
+    const result = MoodPresetLoader.parse(withColors({
+      'statusBar.background': '#06f',
+      'statusBar.foreground': '#fffc',
+      'sideBar.background': '#102030',
+      'editor.selectionBackground': '#0066ff4d',
+    }), file);
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.strictEqual(result.presets[0].colors['editor.selectionBackground'], '#0066ff4d');
+  });
+
+  it('rejects colors that are not hex', () => {
+    const result = MoodPresetLoader.parse(withColors({
+      'statusBar.background': 'blue',
+      'sideBar.background': 'rgb(0, 0, 255)',
+    }), file);
+
+    assert.deepStrictEqual(result.presets, []);
+    assert.match(result.errors[0].message, /statusBar\.background.*"blue" is not a color/);
+    assert.match(result.errors[0].message, /sideBar\.background.*is not a color/);
+  });
+
+  it('reports where a file fails to parse', () => {
+    const result = MoodPresetLoader.parse('{\n  "presets": [\n    { "name": }\n  ]\n}', file);
+
+    assert.strictEqual(result.errors.length, 1);
+    assert.match(result.errors[0].message, /^3:15: /);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * In-memory stand-in for the 'vscode' module, so extension-host code can run under mocha
+ *
+ * Covers just the API surface BridgeServer and VSCodeConfig touch. Settings live
+ * in one map per configuration target; call resetSettings() between tests.
+ */
+
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3,
+}
+
+export enum ColorThemeKind {
+  Light = 1,
+  Dark = 2,
+  HighContrast = 3,
+  HighContrastLight = 4,
+}
+
+export enum StatusBarAlignment {
+  Left = 1,
+  Right = 2,
+}
+
+export class Disposable {
+  constructor(private readonly callOnDispose: () => void = () => undefined) {}
+
+  dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners = new Set<(event: T) => void>();
+
+  readonly event = (listener: (event: T) => void): Disposable => {
+    this.listeners.add(listener);
+    return new Disposable(() => this.listeners.delete(listener));
+  };
+
+  fire(event: T): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export class Uri {
+  private constructor(readonly scheme: string, readonly fsPath: string) {}
+
+  static file(path: string): Uri {
+    return new Uri('file', path);
+  }
+
+  static parse(value: string): Uri {
+    const [scheme, rest] = value.split(':', 2);
+    return new Uri(scheme, rest.replace(/^\/\//, ''));
+  }
+
+  toString(): string {
+    return `${this.scheme}://${this.fsPath}`;
+  }
+}
+
+export class RelativePattern {
+  constructor(readonly base: Uri, readonly pattern: string) {}
+}
+
+// section.key -> value, per level
+const levels = new Map<ConfigurationTarget, Map<string, unknown>>();
+const configurationChanged = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+
+/**
+ * Clear every stored setting
+ */
+export function resetSettings(): void {
+  levels.clear();
+}
+
+function level(target: ConfigurationTarget): Map<string, unknown> {
+  let values = levels.get(target);
+  if (!values) {
+    values = new Map();
+    levels.set(target, values);
+  }
+  return values;
+}
+
+function configuration(section: string) {
+  const read = (target: ConfigurationTarget, key: string) => structuredClone(level(target).get(`${section}.${key}`));
+
+  return {
+    get<T>(key: string, defaultValue?: T): T | undefined {
+      for (const target of [ConfigurationTarget.WorkspaceFolder, ConfigurationTarget.Workspace, ConfigurationTarget.Global]) {
+        const value = read(target, key);
+        if (value !== undefined) {
+          return value as T;
+        }
+      }
+      return defaultValue;
+    },
+    inspect<T>(key: string) {
+      return {
+        key: `${section}.${key}`,
+        globalValue: read(ConfigurationTarget.Global, key) as T | undefined,
+        workspaceValue: read(ConfigurationTarget.Workspace, key) as T | undefined,
+        workspaceFolderValue: read(ConfigurationTarget.WorkspaceFolder, key) as T | undefined,
+      };
+    },
+    async update(key: string, value: unknown, target: ConfigurationTarget = ConfigurationTarget.Global): Promise<void> {
+      const name = `${section}.${key}`;
+      if (value === undefined) {
+        level(target).delete(name);
+      } else {
+        level(target).set(name, structuredClone(value));
+      }
+      configurationChanged.fire({ affectsConfiguration: (affected: string) => name.startsWith(affected) });
+    },
+  };
+}
+
+export const workspace = {
+  workspaceFolders: undefined as { uri: Uri; name: string; index: number }[] | undefined,
+  getConfiguration: (section: string) => configuration(section),
+  getWorkspaceFolder: (_uri: Uri) => undefined,
+  onDidChangeConfiguration: configurationChanged.event,
+  onDidChangeWorkspaceFolders: new EventEmitter<void>().event,
+  createFileSystemWatcher: () => ({
+    onDidCreate: () => new Disposable(),
+    onDidChange: () => new Disposable(),
+    onDidDelete: () => new Disposable(),
+    dispose: () => undefined,
+  }),
+};
+
+export const window = {
+  activeColorTheme: { kind: ColorThemeKind.Dark },
+  showInformationMessage: async (..._args: unknown[]): Promise<string | undefined> => undefined,
+  onDidChangeActiveColorTheme: new EventEmitter<unknown>().event,
+  createStatusBarItem: () => ({
+    text: '',
+    tooltip: '',
+    command: undefined as string | undefined,
+    show: () => undefined,
+    hide: () => undefined,
+    dispose: () => undefined,
+  }),
+};
+
+export const extensions = {
+  all: [] as unknown[],
+  onDidChange: new EventEmitter<void>().event,
+};
+
+export const commands = {
+  executeCommand: async () => undefined,
+};
+
+/**
+ * Minimal ExtensionContext with an in-memory global state
+ *
+ * Writes land shortly after update() is called, so overlapping read-modify-write
+ * sequences that are not serialized lose updates, as they can in the real host.
+ */
+export function createExtensionContext() {
+  const state = new Map<string, unknown>();
+  return {
+    subscriptions: [] as { dispose(): unknown }[],
+    globalState: {
+      keys: () => [...state.keys()],
+      get: <T>(key: string, defaultValue?: T) => (state.has(key) ? state.get(key) as T : defaultValue),
+      update: async (key: string, value: unknown) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        state.set(key, value);
+      },
+    },
+  };
+}
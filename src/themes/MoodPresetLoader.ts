@@ -0,0 +1,363 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse, ParseError, printParseErrorCode } from 'jsonc-parser';
+import tinycolor from 'tinycolor2';
+import { isHexColor } from '../colors/manipulation';
+import { COLOR_SPACES, ColorSpace } from '../colors/spaces';
+import {
+    MOOD_ROLES,
+    MOOD_VARIANTS,
+    MoodPreset,
+    MoodRole,
+    MoodRoles,
+    MoodVariant,
+    MoodVariantOverrides,
+    TokenColorRule
+} from './MoodPresets';
+import { ThemeLoader } from './ThemeLoader';
+
+/**
+ * A preset file (or one preset in it) that could not be loaded
+ */
+export interface MoodPresetError {
+    file: string;
+    preset?: string;        // Name of the preset the error is in, when it has one
+    message: string;        // Location in the file and what is wrong (e.g., 'presets[2].roles.primary: "#ggg" is not a color')
+}
+
+/**
+ * Presets read from one or more files, with everything that was skipped
+ */
+export interface MoodPresetLoadResult {
+    presets: MoodPreset[];
+    errors: MoodPresetError[];
+}
+
+/**
+ * MoodPresetLoader - reads mood presets from JSON files
+ *
+ * A preset file holds `{ "presets": [...] }` (see data/mood-presets.schema.json).
+ * Files are JSONC like theme files. Each preset is checked on its own, so one
+ * bad preset is reported and skipped without losing the rest of its file.
+ *
+ * Presets are looked up in the user directory (~/.8b-moods) and in each
+ * workspace folder's .vscode/8b-moods, after the built-ins in
+ * data/mood-presets.json. A preset with the name of an earlier one replaces it.
+ */
+export class MoodPresetLoader {
+    private static readonly FILE_KEYS = ['$schema', 'presets'];
+    private static readonly PRESET_KEYS = [
+        'name', 'description', 'emoji', 'baseHue', 'saturation', 'brightness', 'baseColor',
+        'colorSpace', 'variant', 'roles', 'baseColors', 'colors', 'tokenColors', 'variants'
+    ];
+    private static readonly OVERRIDE_KEYS = ['roles', 'colors', 'tokenColors'];
+    private static readonly RULE_KEYS = ['name', 'scope', 'settings'];
+    private static readonly RULE_SETTINGS_KEYS = ['foreground', 'background', 'fontStyle'];
+
+    /**
+     * Directory for presets shared across workspaces
+     */
+    public static userDirectory(): string {
+        return path.join(os.homedir(), '.8b-moods');
+    }
+
+    /**
+     * Directory for presets checked in with a workspace folder
+     */
+    public static workspaceDirectory(folderPath: string): string {
+        return path.join(folderPath, '.vscode', '8b-moods');
+    }
+
+    /**
+     * Load every *.json file of each directory, in order; a preset replaces an
+     * earlier one with the same name (case-insensitive)
+     */
+    public static async loadDirectories(directories: string[]): Promise<MoodPresetLoadResult> {
+        const presets = new Map<string, MoodPreset>();
+        const errors: MoodPresetError[] = [];
+
+        for (const directory of directories) {
+            const loaded = await this.loadDirectory(directory);
+            for (const preset of loaded.presets) {
+                presets.set(preset.name.toLowerCase(), preset);
+            }
+            errors.push(...loaded.errors);
+        }
+        return { presets: [...presets.values()], errors };
+    }
+
+    /**
+     * Load every *.json file of a directory (a missing directory has no presets)
+     */
+    public static async loadDirectory(directory: string): Promise<MoodPresetLoadResult> {
+        let entries: string[];
+        try {
+            entries = await fs.promises.readdir(directory);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return { presets: [], errors: [] };
+            }
+            return { presets: [], errors: [{ file: directory, message: `Cannot read directory: ${(error as Error).message}` }] };
+        }
+
+        const presets = new Map<string, MoodPreset>();
+        const errors: MoodPresetError[] = [];
+        for (const entry of entries.filter(name => name.toLowerCase().endsWith('.json')).sort()) {
+            const file = path.join(directory, entry);
+            let text: string;
+            try {
+                text = await fs.promises.readFile(file, 'utf8');
+            } catch (error) {
+                errors.push({ file, message: `Cannot read file: ${(error as Error).message}` });
+                continue;
+            }
+
+            const loaded = this.parse(text, file);
+            errors.push(...loaded.errors);
+            for (const preset of loaded.presets) {
+                const existing = presets.get(preset.name.toLowerCase());
+                if (existing) {
+                    errors.push({ file, preset: preset.name, message: `Duplicate preset name (also in ${path.basename(existing.source!)})` });
+                    continue;
+                }
+                presets.set(preset.name.toLowerCase(), { ...preset, source: file });
+            }
+        }
+        return { presets: [...presets.values()], errors };
+    }
+
+    /**
+     * Parse the JSONC text of a preset file
+     *
+     * @param file Path (or label) used in error messages
+     */
+    public static parse(text: string, file: string): MoodPresetLoadResult {
+        const parseErrors: ParseError[] = [];
+        const value = parse(text, parseErrors, { allowTrailingComma: true, disallowComments: false });
+
+        if (parseErrors.length > 0) {
+            const { offset, error } = parseErrors[0];
+            const { line, column } = ThemeLoader.positionAt(text, offset);
+            return { presets: [], errors: [{ file, message: `${line}:${column}: ${printParseErrorCode(error)}` }] };
+        }
+        return this.validate(value, file);
+    }
+
+    /**
+     * Check parsed file contents against the preset schema
+     *
+     * @param file Path (or label) used in error messages
+     * @returns The valid presets and one error per invalid preset (or for the file)
+     */
+    public static validate(data: unknown, file: string): MoodPresetLoadResult {
+        if (!this.isObject(data) || !Array.isArray(data.presets)) {
+            return { presets: [], errors: [{ file, message: 'A preset file must be an object with a "presets" array' }] };
+        }
+
+        const presets: MoodPreset[] = [];
+        const errors: MoodPresetError[] = [];
+        const fileProblems = this.unknownKeys(data, this.FILE_KEYS, '');
+        if (fileProblems.length > 0) {
+            errors.push({ file, message: fileProblems.join('; ') });
+        }
+
+        const names = new Set<string>();
+        data.presets.forEach((raw: unknown, index: number) => {
+            const at = `presets[${index}]`;
+            const problems: string[] = [];
+            const preset = this.validatePreset(raw, at, problems);
+            const name = this.isObject(raw) && typeof raw.name === 'string' ? raw.name : undefined;
+
+            if (preset && names.has(preset.name.toLowerCase())) {
+                problems.push(`${at}.name: duplicate preset name "${preset.name}"`);
+            }
+            if (problems.length > 0 || !preset) {
+                errors.push({ file, preset: name, message: problems.join('; ') });
+                return;
+            }
+            names.add(preset.name.toLowerCase());
+            presets.push(preset);
+        });
+
+        return { presets, errors };
+    }
+
+    /**
+     * Build a preset from one entry of the `presets` array, recording what is wrong with it
+     */
+    private static validatePreset(raw: unknown, at: string, problems: string[]): MoodPreset | undefined {
+        if (!this.isObject(raw)) {
+            problems.push(`${at}: must be an object`);
+            return undefined;
+        }
+        problems.push(...this.unknownKeys(raw, this.PRESET_KEYS, at));
+
+        const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+        if (!name) {
+            problems.push(`${at}.name: required (a non-empty string)`);
+        }
+        for (const key of ['description', 'emoji']) {
+            if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+                problems.push(`${at}.${key}: must be a string`);
+            }
+        }
+        if (raw.colorSpace !== undefined && !COLOR_SPACES.includes(raw.colorSpace as ColorSpace)) {
+            problems.push(`${at}.colorSpace: must be one of ${COLOR_SPACES.join(', ')}`);
+        }
+        if (raw.variant !== undefined && !MOOD_VARIANTS.includes(raw.variant as MoodVariant)) {
+            problems.push(`${at}.variant: must be one of ${MOOD_VARIANTS.join(', ')}`);
+        }
+
+        const roles = raw.roles === undefined ? undefined : this.validateRoles(raw.roles, `${at}.roles`, problems);
+        const baseColors = raw.baseColors === undefined ? undefined : this.validateColors(raw.baseColors, `${at}.baseColors`, problems);
+        const colors = raw.colors === undefined ? {} : this.validateColors(raw.colors, `${at}.colors`, problems);
+        const tokenColors = raw.tokenColors === undefined ? undefined : this.validateTokenColors(raw.tokenColors, `${at}.tokenColors`, problems);
+        const variants = raw.variants === undefined ? undefined : this.validateVariants(raw.variants, `${at}.variants`, problems);
+
+        // Hue, saturation and brightness can be given directly or derived from a color
+        const ranges: [string, number][] = [['baseHue', 360], ['saturation', 100], ['brightness', 100]];
+        for (const [key, max] of ranges) {
+            const value = raw[key];
+            if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < 0 || value > max)) {
+                problems.push(`${at}.${key}: must be a number from 0 to ${max}`);
+            }
+        }
+        if (raw.baseColor !== undefined && !isHexColor(raw.baseColor)) {
+            problems.push(`${at}.baseColor: ${JSON.stringify(raw.baseColor)} is not a color`);
+        }
+        const seedColor = (raw.baseColor as string | undefined) ?? roles?.primary;
+        const seed = seedColor && isHexColor(seedColor) ? tinycolor(seedColor).toHsl() : undefined;
+        if (!seed && ranges.some(([key]) => raw[key] === undefined)) {
+            problems.push(`${at}: needs baseHue, saturation and brightness, or a baseColor (or roles.primary) to derive them from`);
+        }
+
+        if (problems.length > 0) {
+            return undefined;
+        }
+        return {
+            name,
+            description: (raw.description as string | undefined) ?? '',
+            emoji: (raw.emoji as string | undefined) ?? '🎨',
+            baseHue: (raw.baseHue as number | undefined) ?? seed!.h,
+            saturation: (raw.saturation as number | undefined) ?? seed!.s * 100,
+            brightness: (raw.brightness as number | undefined) ?? seed!.l * 100,
+            colors,
+            ...(tokenColors ? { tokenColors } : {}),
+            ...(raw.colorSpace ? { colorSpace: raw.colorSpace as ColorSpace } : {}),
+            ...(roles ? { roles } : {}),
+            ...(raw.variant ? { variant: raw.variant as MoodVariant } : {}),
+            ...(baseColors ? { baseColors } : {}),
+            ...(variants ? { variants } : {})
+        };
+    }
+
+    private static validateRoles(value: unknown, at: string, problems: string[]): MoodRoles {
+        if (!this.isObject(value)) {
+            problems.push(`${at}: must be an object`);
+            return {};
+        }
+        const roles: MoodRoles = {};
+        for (const [role, color] of Object.entries(value)) {
+            if (!MOOD_ROLES.includes(role as MoodRole)) {
+                problems.push(`${at}.${role}: unknown role (roles are ${MOOD_ROLES.join(', ')})`);
+            } else if (!isHexColor(color)) {
+                problems.push(`${at}.${role}: ${JSON.stringify(color)} is not a color`);
+            } else {
+                roles[role as MoodRole] = color;
+            }
+        }
+        return roles;
+    }
+
+    private static validateColors(value: unknown, at: string, problems: string[]): Record<string, string> {
+        if (!this.isObject(value)) {
+            problems.push(`${at}: must be an object of color keys`);
+            return {};
+        }
+        const colors: Record<string, string> = {};
+        for (const [key, color] of Object.entries(value)) {
+            if (!isHexColor(color)) {
+                problems.push(`${at}["${key}"]: ${JSON.stringify(color)} is not a color`);
+            } else {
+                colors[key] = color;
+            }
+        }
+        return colors;
+    }
+
+    private static validateTokenColors(value: unknown, at: string, problems: string[]): TokenColorRule[] {
+        if (!Array.isArray(value)) {
+            problems.push(`${at}: must be an array of token color rules`);
+            return [];
+        }
+        value.forEach((rule: unknown, index: number) => {
+            const ruleAt = `${at}[${index}]`;
+            if (!this.isObject(rule)) {
+                problems.push(`${ruleAt}: must be an object`);
+                return;
+            }
+            problems.push(...this.unknownKeys(rule, this.RULE_KEYS, ruleAt));
+            const scopes = Array.isArray(rule.scope) ? rule.scope : [rule.scope];
+            if (scopes.length === 0 || scopes.some(scope => typeof scope !== 'string' || !scope)) {
+                problems.push(`${ruleAt}.scope: must be a scope or an array of scopes`);
+            }
+            if (!this.isObject(rule.settings)) {
+                problems.push(`${ruleAt}.settings: must be an object`);
+                return;
+            }
+            problems.push(...this.unknownKeys(rule.settings, this.RULE_SETTINGS_KEYS, `${ruleAt}.settings`));
+            for (const key of ['foreground', 'background']) {
+                if (rule.settings[key] !== undefined && !isHexColor(rule.settings[key])) {
+                    problems.push(`${ruleAt}.settings.${key}: ${JSON.stringify(rule.settings[key])} is not a color`);
+                }
+            }
+            if (rule.settings.fontStyle !== undefined && typeof rule.settings.fontStyle !== 'string') {
+                problems.push(`${ruleAt}.settings.fontStyle: must be a string`);
+            }
+        });
+        return value as TokenColorRule[];
+    }
+
+    private static validateVariants(
+        value: unknown,
+        at: string,
+        problems: string[]
+    ): Partial<Record<MoodVariant, MoodVariantOverrides>> {
+        if (!this.isObject(value)) {
+            problems.push(`${at}: must be an object keyed by variant`);
+            return {};
+        }
+        const variants: Partial<Record<MoodVariant, MoodVariantOverrides>> = {};
+        for (const [variant, overrides] of Object.entries(value)) {
+            const variantAt = `${at}.${variant}`;
+            if (!MOOD_VARIANTS.includes(variant as MoodVariant)) {
+                problems.push(`${variantAt}: unknown variant (variants are ${MOOD_VARIANTS.join(', ')})`);
+                continue;
+            }
+            if (!this.isObject(overrides)) {
+                problems.push(`${variantAt}: must be an object`);
+                continue;
+            }
+            problems.push(...this.unknownKeys(overrides, this.OVERRIDE_KEYS, variantAt));
+            variants[variant as MoodVariant] = {
+                ...(overrides.roles !== undefined ? { roles: this.validateRoles(overrides.roles, `${variantAt}.roles`, problems) } : {}),
+                ...(overrides.colors !== undefined ? { colors: this.validateColors(overrides.colors, `${variantAt}.colors`, problems) } : {}),
+                ...(overrides.tokenColors !== undefined
+                    ? { tokenColors: this.validateTokenColors(overrides.tokenColors, `${variantAt}.tokenColors`, problems) }
+                    : {})
+            };
+        }
+        return variants;
+    }
+
+    private static unknownKeys(value: Record<string, unknown>, known: string[], at: string): string[] {
+        return Object.keys(value)
+            .filter(key => !known.includes(key))
+            .map(key => `${at ? `${at}.` : ''}${key}: unknown property`);
+    }
+
+    private static isObject(value: unknown): value is Record<string, unknown> {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+}
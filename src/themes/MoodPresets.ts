@@ -1,4 +1,106 @@
 import tinycolor from 'tinycolor2';
+import { checkDistinguishability } from '../colors/vision';
+import { SURFACE_KEYS, separateSurfaces } from '../colors/difference';
+import type { PaletteRoles } from '../colors/palette';
+import { ColorSpace, PerceptualColor } from '../colors/spaces';
+import { AdvancedColorOps } from '../colors/advanced';
+import { ColorManipulator } from '../colors/manipulation';
+import { auditContrast, fixContrast } from '../colors/accessibility';
+import type { ThemeKind } from '../bridge/protocol';
+import { MoodPresetLoader } from './MoodPresetLoader';
+import moodPresetsData from '../../data/mood-presets.json';
+
+/**
+ * A TextMate token color rule, as used in a theme's `tokenColors` and in
+ * `editor.tokenColorCustomizations.textMateRules`
+ */
+export interface TokenColorRule {
+    name?: string;
+    scope: string | string[];
+    settings: {
+        foreground?: string;
+        background?: string;
+        fontStyle?: string;
+    };
+}
+
+/**
+ * Style for a semantic token selector, as used in `editor.semanticTokenColorCustomizations.rules`
+ */
+export interface SemanticTokenStyle {
+    foreground?: string;
+    fontStyle?: string;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+/**
+ * Semantic token rules keyed by selector (e.g., "function", "variable.readonly")
+ */
+export type SemanticTokenRules = Record<string, string | SemanticTokenStyle>;
+
+/**
+ * One color per syntax role, derived from a mood's harmony
+ */
+export interface SyntaxPalette {
+    comment: string;
+    keyword: string;
+    string: string;
+    number: string;
+    function: string;
+    type: string;
+    variable: string;
+    punctuation: string;
+}
+
+/**
+ * Named colors a mood is built from (e.g., a brand's primary, secondary and accent)
+ */
+export interface MoodRoles {
+    background?: string;    // Editor and terminal
+    surface?: string;       // Sidebar, activity bar and status bar
+    foreground?: string;    // Text
+    primary?: string;       // Cursor, buttons, focus and active borders, selection
+    secondary?: string;     // Titles, active line number, slash commands
+    accent?: string;        // Find matches, links, badges
+    danger?: string;        // Errors and deletions
+    warning?: string;       // Warnings and modifications
+    success?: string;       // Additions
+}
+
+export type MoodRole = keyof MoodRoles;
+
+/**
+ * Which kind of theme a mood is generated for (matches VS Code's theme kinds)
+ */
+export type MoodVariant = ThemeKind;
+
+export const MOOD_VARIANTS: MoodVariant[] = ['dark', 'light', 'highContrastDark', 'highContrastLight'];
+
+export const MOOD_ROLES: MoodRole[] = [
+    'background', 'surface', 'foreground', 'primary', 'secondary', 'accent', 'danger', 'warning', 'success'
+];
+
+/**
+ * A role pair below its contrast target
+ */
+export interface RoleContrastIssue {
+    role: MoodRole;
+    against: MoodRole;
+    ratio: number;
+    required: number;
+    suggestion: string;     // Nearest value of `role` that meets the target
+}
+
+/**
+ * Changes a preset makes for one variant, over its dark definition
+ */
+export interface MoodVariantOverrides {
+    roles?: MoodRoles;                       // Merged over the preset's roles
+    colors?: Record<string, string>;         // Merged over the preset's explicit colors
+    tokenColors?: TokenColorRule[];          // Replace the preset's token colors
+}
 
 export interface MoodPreset {
     name: string;
@@ -7,147 +109,205 @@ export interface MoodPreset {
     baseHue: number;
     saturation: number;
     brightness: number;
-    colors: Record<string, string>;
+    colors: Record<string, string>;          // Explicit colors, layered over the generated palette
+    tokenColors?: TokenColorRule[];          // Explicit syntax rules (e.g., from an imported theme)
+    colorSpace?: ColorSpace;                 // Space the palette is derived in (default: hsl)
+    roles?: MoodRoles;                       // Role colors; roles left out come from the harmony
+    variant?: MoodVariant;                   // Theme kind to generate for (default: dark)
+    baseColors?: Record<string, string>;     // Designed dark palette used instead of the harmony (remapped for other variants)
+    variants?: Partial<Record<MoodVariant, MoodVariantOverrides>>;  // Per-variant roles, colors and token colors
+    source?: string;                         // Preset file the preset was loaded from, or "custom" for saved custom moods (built-ins have none)
 }
 
+/**
+ * Keys each role colors. The first is the role's own key and keeps the role
+ * color exactly; the others follow it, but may be nudged apart (surfaces) or
+ * for color vision (git and terminal colors).
+ */
+const ROLE_KEYS: Record<MoodRole, string[]> = {
+    background: ['editor.background', 'terminal.background', 'statusBar.noFolderBackground'],
+    surface: ['sideBar.background', 'activityBar.background', 'statusBar.background', 'notifications.background'],
+    foreground: ['editor.foreground', 'sideBar.foreground', 'statusBar.foreground', 'terminal.foreground', 'notifications.foreground', 'input.foreground', 'list.activeSelectionForeground'],
+    primary: ['button.background', 'editorCursor.foreground', 'activityBar.activeBorder', 'focusBorder', 'list.focusOutline', 'inputOption.activeBorder', 'notificationCenter.border'],
+    secondary: ['sideBarTitle.foreground', 'editorLineNumber.activeForeground', 'chat.slashCommandForeground'],
+    accent: ['textLink.foreground', 'activityBarBadge.background', 'terminal.ansiMagenta'],
+    danger: ['editorError.foreground', 'gitDecoration.deletedResourceForeground', 'terminal.ansiRed'],
+    warning: ['editorWarning.foreground', 'gitDecoration.modifiedResourceForeground', 'terminal.ansiYellow'],
+    success: ['gitDecoration.addedResourceForeground', 'terminal.ansiGreen', 'editorGutter.addedBackground'],
+};
+
+/**
+ * Role pairs drawn on each other, with the WCAG ratio each needs
+ * (4.5:1 for text; 3:1 for cursors, borders, squiggles and badges)
+ */
+const ROLE_CONTRAST: [MoodRole, MoodRole, number][] = [
+    ['foreground', 'background', 4.5],
+    ['foreground', 'surface', 4.5],
+    ['secondary', 'surface', 4.5],
+    ['primary', 'background', 3],
+    ['accent', 'background', 3],
+    ['danger', 'background', 3],
+    ['warning', 'background', 3],
+    ['success', 'background', 3],
+];
+
+/**
+ * How each variant remaps the OKLCH lightness (0-100) of the dark palette.
+ * Opaque backgrounds go to `surface`, keeping their offset from the editor
+ * background scaled by `spread` (negative flips darker surfaces to lighter);
+ * everything else (text, accents, overlays) becomes `text[0] + text[1] * L`.
+ */
+const VARIANT_LIGHTNESS: Record<Exclude<MoodVariant, 'dark'>, { surface: number; spread: number; text: [number, number] }> = {
+    light: { surface: 97, spread: -0.6, text: [112, -1] },
+    highContrastDark: { surface: 0, spread: 0.3, text: [50, 0.5] },
+    highContrastLight: { surface: 100, spread: -0.3, text: [60, -0.5] },
+};
+
 export class MoodPresetsManager {
-    private static presets: MoodPreset[] = [
-        {
-            name: 'Ocean Depths',
-            description: 'Deep blues and teals for calm, focused coding',
-            emoji: '🌊',
-            baseHue: 200,
-            saturation: 70,
-            brightness: 30,
-            colors: {}
-        },
-        {
-            name: 'Sunset Vibes',
-            description: 'Warm oranges and purples for creative evening sessions',
-            emoji: '🌅',
-            baseHue: 25,
-            saturation: 80,
-            brightness: 45,
-            colors: {}
-        },
-        {
-            name: 'Forest Zen',
-            description: 'Natural greens for peaceful, meditative coding',
-            emoji: '🌲',
-            baseHue: 140,
-            saturation: 50,
-            brightness: 35,
-            colors: {}
-        },
-        {
-            name: 'Midnight Purple',
-            description: 'Rich purples and magentas for late-night hacking',
-            emoji: '🌙',
-            baseHue: 280,
-            saturation: 60,
-            brightness: 25,
-            colors: {}
-        },
-        {
-            name: 'Cyberpunk',
-            description: 'Neon pinks and cyans for futuristic coding',
-            emoji: '🤖',
-            baseHue: 320,
-            saturation: 100,
-            brightness: 50,
-            colors: {}
-        },
-        {
-            name: 'Autumn Leaves',
-            description: 'Warm browns and oranges for cozy coding',
-            emoji: '🍂',
-            baseHue: 30,
-            saturation: 60,
-            brightness: 40,
-            colors: {}
-        },
-        {
-            name: 'Arctic Ice',
-            description: 'Cool blues and whites for crisp, clean focus',
-            emoji: '❄️',
-            baseHue: 190,
-            saturation: 40,
-            brightness: 50,
-            colors: {}
-        },
-        {
-            name: 'Lava Flow',
-            description: 'Hot reds and oranges for intense coding sessions',
-            emoji: '🌋',
-            baseHue: 10,
-            saturation: 90,
-            brightness: 35,
-            colors: {}
-        },
-        {
-            name: 'Sakura Dreams',
-            description: 'Soft pinks and whites for gentle, beautiful code',
-            emoji: '🌸',
-            baseHue: 340,
-            saturation: 50,
-            brightness: 60,
-            colors: {}
-        },
-        {
-            name: 'Matrix Code',
-            description: 'Classic green-on-black for that hacker aesthetic',
-            emoji: '💚',
-            baseHue: 120,
-            saturation: 100,
-            brightness: 20,
-            colors: {}
-        },
-        {
-            name: 'Deep Space',
-            description: 'Dark purples and blues with starry accents',
-            emoji: '🌌',
-            baseHue: 260,
-            saturation: 70,
-            brightness: 15,
-            colors: {}
-        },
-        {
-            name: 'Golden Hour',
-            description: 'Warm golds and soft yellows for inspired coding',
-            emoji: '✨',
-            baseHue: 45,
-            saturation: 70,
-            brightness: 55,
-            colors: {}
-        }
-    ];
+    // Built-ins from data/mood-presets.json, read on first use
+    private static builtInPresets: MoodPreset[] | undefined;
+
+    // Presets from the user and workspace preset directories; may replace built-ins
+    private static filePresets: MoodPreset[] = [];
+
+    // Custom moods (and imported themes) saved in extension global state
+    private static customPresets: MoodPreset[] = [];
 
     public static getAllPresets(): MoodPreset[] {
         // Generate colors for each preset on demand
-        return this.presets.map(preset => ({
-            ...preset,
-            colors: this.generatePresetColors(preset)
-        }));
+        return this.definitions().map(preset => this.withColors(preset));
     }
 
-    public static getPreset(name: string): MoodPreset | undefined {
-        const preset = this.presets.find(p =>
+    /**
+     * @param colorSpace Derive the palette in this space instead of the preset's own
+     * @param variant Generate for this theme kind instead of the preset's own
+     */
+    public static getPreset(name: string, colorSpace?: ColorSpace, variant?: MoodVariant): MoodPreset | undefined {
+        const preset = this.definitions().find(p =>
             p.name.toLowerCase() === name.toLowerCase()
         );
         if (!preset) return undefined;
 
+        return this.withColors({
+            ...preset,
+            ...(colorSpace ? { colorSpace } : {}),
+            ...(variant ? { variant } : {})
+        });
+    }
+
+    /**
+     * Replace the presets loaded from preset files (see MoodPresetLoader)
+     */
+    public static setFilePresets(presets: MoodPreset[]): void {
+        this.filePresets = [...presets];
+    }
+
+    /**
+     * Replace the saved custom moods (their stored definitions, without generated colors)
+     */
+    public static setCustomPresets(presets: MoodPreset[]): void {
+        this.customPresets = presets.map(preset => ({ ...preset, source: 'custom' }));
+    }
+
+    /**
+     * Check whether a name belongs to a built-in preset (those names can't be reused)
+     */
+    public static isBuiltIn(name: string): boolean {
+        return this.builtIns().some(p => p.name.toLowerCase() === name.toLowerCase());
+    }
+
+    private static builtIns(): MoodPreset[] {
+        if (!this.builtInPresets) {
+            const loaded = MoodPresetLoader.validate(moodPresetsData, 'data/mood-presets.json');
+            if (loaded.errors.length > 0) {
+                throw new Error(`Invalid built-in mood presets: ${loaded.errors.map(e => e.message).join('; ')}`);
+            }
+            this.builtInPresets = loaded.presets;
+        }
+        return this.builtInPresets;
+    }
+
+    /**
+     * Built-in, file and custom presets; a later preset with the
+     * name of an earlier one takes its place in the list
+     */
+    private static definitions(): MoodPreset[] {
+        const byName = new Map<string, MoodPreset>();
+        for (const preset of [...this.builtIns(), ...this.filePresets, ...this.customPresets]) {
+            byName.set(preset.name.toLowerCase(), preset);
+        }
+        return [...byName.values()];
+    }
+
+    /**
+     * Infer mood parameters from an existing theme's colors
+     *
+     * Hue and saturation come from the most prominent accent key (falling back to
+     * the editor background); brightness undoes the generator's darken(25) on the
+     * editor background, so regenerated keys sit at the same depth as the theme.
+     */
+    public static createFromThemeColors(
+        name: string,
+        colors: Record<string, string>,
+        description: string,
+        tokenColors?: TokenColorRule[]
+    ): MoodPreset {
+        const accentKeys = ['activityBar.activeBorder', 'button.background', 'focusBorder', 'editorCursor.foreground', 'statusBar.background'];
+        const accent = accentKeys.map(key => tinycolor(colors[key])).find(c => c.isValid() && c.toHsl().s > 0.15);
+        const background = tinycolor(colors['editor.background']);
+
+        const hueSource = accent ?? (background.isValid() ? background : tinycolor('#007acc'));
+        const hsl = hueSource.toHsl();
+        const brightness = background.isValid()
+            ? Math.min(95, background.toHsl().l * 100 + 25)
+            : hsl.l * 100;
+
+        return {
+            name,
+            description,
+            emoji: '🎨',
+            baseHue: Math.round(hsl.h),
+            saturation: Math.round(hsl.s * 100),
+            brightness: Math.round(brightness),
+            colors: { ...colors },
+            tokenColors
+        };
+    }
+
+    private static withColors(preset: MoodPreset): MoodPreset {
+        const resolved = this.withVariantOverrides(preset);
+        return {
+            ...resolved,
+            colors: { ...this.generatePresetColors(resolved), ...resolved.colors }
+        };
+    }
+
+    /**
+     * Fold the overrides for the preset's variant into its roles, colors and token colors
+     */
+    private static withVariantOverrides(preset: MoodPreset): MoodPreset {
+        const overrides = preset.variants?.[preset.variant ?? 'dark'];
+        if (!overrides) {
+            return preset;
+        }
         return {
             ...preset,
-            colors: this.generatePresetColors(preset)
+            colors: { ...preset.colors, ...overrides.colors },
+            ...(overrides.roles ? { roles: { ...preset.roles, ...overrides.roles } } : {}),
+            ...(overrides.tokenColors ? { tokenColors: overrides.tokenColors } : {})
         };
     }
 
+    /**
+     * Derive the UI palette from a preset's hue, saturation and brightness
+     * (in preset.colorSpace: OKLCH keeps lightness even across hues)
+     */
     public static generatePresetColors(preset: MoodPreset): Record<string, string> {
-        const base = tinycolor({
+        const base = PerceptualColor.from({
             h: preset.baseHue,
             s: preset.saturation,
             l: preset.brightness
-        });
+        }, preset.colorSpace);
 
         // Generate harmonious color palette
         const complementary = base.clone().spin(180);
@@ -156,47 +316,11 @@ export class MoodPresetsManager {
         const triadic1 = base.clone().spin(120);
         const triadic2 = base.clone().spin(240);
 
-        // Special handling for specific moods
+        // Presets with their own (dark) palette skip the harmony
         let colors: Record<string, string> = {};
 
-        if (preset.name === 'Matrix Code') {
-            // Classic Matrix green theme
-            colors = {
-                'editor.background': '#0d0d0d',
-                'editor.foreground': '#00ff41',
-                'editorCursor.foreground': '#00ff41',
-                'editor.selectionBackground': '#00ff4133',
-                'editor.lineHighlightBackground': '#00330f22',
-                'sideBar.background': '#000000',
-                'sideBar.foreground': '#00cc33',
-                'activityBar.background': '#000000',
-                'activityBar.foreground': '#00ff41',
-                'statusBar.background': '#001a00',
-                'statusBar.foreground': '#00ff41',
-                'terminal.ansiGreen': '#00ff41',
-                'terminal.ansiBrightGreen': '#33ff66',
-                'list.activeSelectionBackground': '#00330f',
-                'list.hoverBackground': '#00220a'
-            };
-        } else if (preset.name === 'Cyberpunk') {
-            // Neon cyberpunk theme
-            const neonPink = tinycolor('#ff00ff');
-            const neonCyan = tinycolor('#00ffff');
-            colors = {
-                'editor.background': '#0a0015',
-                'editor.foreground': '#e0e0ff',
-                'editorCursor.foreground': neonPink.toHexString(),
-                'editor.selectionBackground': neonPink.clone().setAlpha(0.3).toHexString(),
-                'editor.lineHighlightBackground': '#1a0030',
-                'sideBar.background': '#0d0020',
-                'activityBar.background': '#000000',
-                'activityBar.activeBorder': neonCyan.toHexString(),
-                'statusBar.background': neonPink.darken(20).toHexString(),
-                'statusBar.foreground': '#ffffff',
-                'terminal.ansiMagenta': neonPink.toHexString(),
-                'terminal.ansiCyan': neonCyan.toHexString(),
-                'list.activeSelectionBackground': neonPink.clone().darken(30).toHexString()
-            };
+        if (preset.baseColors) {
+            colors = { ...preset.baseColors };
         } else {
             // Generate standard harmonic theme
             colors = {
@@ -273,15 +397,269 @@ export class MoodPresetsManager {
                 'gitDecoration.untrackedResourceForeground': analogous2.clone().lighten(15).toHexString(),
                 'gitDecoration.addedResourceForeground': complementary.clone().lighten(15).toHexString(),
             };
+
+            // Fixed lightness offsets can give two surfaces the same color (sidebar and
+            // status bar are both darken(30)); move them apart so the layout stays visible
+            colors = { ...colors, ...separateSurfaces(colors).fixes };
+        }
+
+        // The palettes above are designed dark; other variants remap their lightness
+        const variant = preset.variant ?? 'dark';
+        if (variant !== 'dark') {
+            const editorLightness = PerceptualColor.from(colors['editor.background'] ?? '#1e1e1e', 'oklch').getLightness();
+            colors = Object.fromEntries(Object.entries(colors).map(([key, value]) =>
+                [key, this.toVariant(value, variant, /background$/i.test(key) ? editorLightness : undefined)]
+            ));
+            if (variant === 'highContrastDark' || variant === 'highContrastLight') {
+                // High contrast themes outline every region instead of shading it
+                colors['contrastBorder'] = colors['activityBar.activeBorder'] ?? colors['editorCursor.foreground'];
+                colors['contrastActiveBorder'] = colors['editorCursor.foreground'] ?? colors['activityBar.activeBorder'];
+            }
         }
 
+        // Explicit roles replace what the harmony derived for them
+        const roles = preset.roles ?? {};
+        const pinned = MOOD_ROLES.filter(role => roles[role]).map(role => ROLE_KEYS[role][0]);
+        if (pinned.length > 0) {
+            colors = { ...colors, ...this.roleColors(roles) };
+        }
+        // High contrast relies on contrastBorder rather than shading between surfaces
+        if (pinned.length > 0 || variant === 'light') {
+            colors = { ...colors, ...separateSurfaces(colors, undefined, undefined, SURFACE_KEYS, pinned).fixes };
+        }
+
+        // Remapped text can land short of the target; light needs AA, high contrast AAA
+        if (variant !== 'dark') {
+            const textFixes = fixContrast(colors, auditContrast(colors, variant === 'light' ? 'AA' : 'AAA'));
+            for (const key of pinned) {
+                delete textFixes[key];
+            }
+            colors = { ...colors, ...textFixes };
+        }
+
+        // Harmony hues can land git/terminal colors on the same red-green axis;
+        // nudge them apart so colorblind users can still tell them apart
+        const fixes = checkDistinguishability(colors).fixes;
+        for (const key of pinned) {
+            delete fixes[key];
+        }
+        return { ...colors, ...fixes };
+    }
+
+    /**
+     * Move a dark-palette color to a variant (see VARIANT_LIGHTNESS),
+     * keeping its hue, chroma (where sRGB allows) and alpha
+     *
+     * @param editorLightness Lightness of the dark editor background, when the color is a background
+     */
+    private static toVariant(color: string, variant: MoodVariant, editorLightness?: number): string {
+        const parsed = tinycolor(color);
+        if (variant === 'dark' || !parsed.isValid()) {
+            return color;
+        }
+
+        const mapping = VARIANT_LIGHTNESS[variant];
+        const perceptual = PerceptualColor.from(parsed, 'oklch');
+        const lightness = perceptual.getLightness();
+        const opaque = parsed.getAlpha() === 1;
+        perceptual.setLightness(opaque && editorLightness !== undefined
+            ? mapping.surface + mapping.spread * (lightness - editorLightness)
+            : mapping.text[0] + mapping.text[1] * lightness);
+
+        return opaque ? perceptual.toHexString() : perceptual.toHex8String();
+    }
+
+    /**
+     * Colors for the keys of each given role, plus the translucent and
+     * on-color keys that follow from them
+     */
+    private static roleColors(roles: MoodRoles): Record<string, string> {
+        const colors: Record<string, string> = {};
+        for (const role of MOOD_ROLES) {
+            const value = roles[role];
+            if (value) {
+                for (const key of ROLE_KEYS[role]) {
+                    colors[key] = value;
+                }
+            }
+        }
+
+        if (roles.primary) {
+            const primary = tinycolor(roles.primary);
+            colors['editor.selectionBackground'] = primary.clone().setAlpha(0.3).toHex8String();
+            colors['button.hoverBackground'] = PerceptualColor.from(primary, 'oklch').darken(5).toHexString();
+            colors['button.foreground'] = AdvancedColorOps.ensureReadability(primary.isDark() ? '#ffffff' : '#000000', roles.primary, 4.5);
+        }
+        if (roles.accent) {
+            colors['editor.findMatchHighlightBackground'] = tinycolor(roles.accent).setAlpha(0.4).toHex8String();
+            colors['activityBarBadge.foreground'] = AdvancedColorOps.ensureReadability(tinycolor(roles.accent).isDark() ? '#ffffff' : '#000000', roles.accent, 4.5);
+        }
         return colors;
     }
 
+    /**
+     * Check a preset's role colors against each other before it is applied
+     *
+     * Roles the preset doesn't set are read from the generated palette, and only
+     * pairs with at least one explicit role are checked, so a harmony-derived
+     * palette never blocks a brand color it didn't choose.
+     */
+    public static checkRoleContrast(preset: MoodPreset): RoleContrastIssue[] {
+        const roles = preset.roles ?? {};
+        const generated = this.generatePresetColors(preset);
+        const valueOf = (role: MoodRole) => roles[role] ?? generated[ROLE_KEYS[role][0]];
+        const manipulator = new ColorManipulator();
+
+        const issues: RoleContrastIssue[] = [];
+        for (const [role, against, required] of ROLE_CONTRAST) {
+            const color = valueOf(role);
+            const background = valueOf(against);
+            if (!color || !background || !(roles[role] || roles[against])) {
+                continue;
+            }
+            const ratio = manipulator.getContrastRatio(color, background);
+            if (ratio < required) {
+                issues.push({
+                    role,
+                    against,
+                    ratio: Math.round(ratio * 100) / 100,
+                    required,
+                    suggestion: AdvancedColorOps.ensureReadability(color, background, required)
+                });
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * Generate the syntax palette (one color per token role) from the same harmony as the UI colors
+     */
+    public static generateSyntaxPalette(preset: MoodPreset): SyntaxPalette {
+        const base = PerceptualColor.from({
+            h: preset.baseHue,
+            s: preset.saturation,
+            l: preset.brightness
+        }, preset.colorSpace);
+
+        const complementary = base.clone().spin(180);
+        const analogous1 = base.clone().spin(30);
+        const analogous2 = base.clone().spin(-30);
+        const triadic1 = base.clone().spin(120);
+        const triadic2 = base.clone().spin(240);
+
+        const palette: SyntaxPalette = {
+            comment: base.clone().lighten(15).desaturate(40).toHexString(),
+            keyword: analogous1.clone().lighten(25).toHexString(),
+            string: triadic2.clone().lighten(25).toHexString(),
+            number: triadic1.clone().lighten(25).toHexString(),
+            function: complementary.clone().lighten(25).toHexString(),
+            type: analogous2.clone().lighten(25).toHexString(),
+            variable: base.clone().lighten(45).desaturate(30).toHexString(),
+            punctuation: base.clone().lighten(35).desaturate(40).toHexString()
+        };
+
+        const variant = preset.variant ?? 'dark';
+        if (variant === 'dark') {
+            return palette;
+        }
+        return Object.fromEntries(
+            Object.entries(palette).map(([role, color]) => [role, this.toVariant(color, variant)])
+        ) as unknown as SyntaxPalette;
+    }
+
+    /**
+     * Generate TextMate token rules for a preset
+     * (explicit tokenColors, e.g. from an imported theme, take precedence)
+     */
+    public static generateTokenColors(preset: MoodPreset): TokenColorRule[] {
+        if (preset.tokenColors && preset.tokenColors.length > 0) {
+            return preset.tokenColors;
+        }
+
+        const palette = this.generateSyntaxPalette(preset);
+        return [
+            {
+                name: 'Comments',
+                scope: ['comment', 'punctuation.definition.comment'],
+                settings: { foreground: palette.comment, fontStyle: 'italic' }
+            },
+            {
+                name: 'Keywords',
+                scope: ['keyword', 'storage.type', 'storage.modifier'],
+                settings: { foreground: palette.keyword }
+            },
+            {
+                name: 'Strings',
+                scope: ['string', 'string.quoted', 'string.template'],
+                settings: { foreground: palette.string }
+            },
+            {
+                name: 'Numbers & Constants',
+                scope: ['constant.numeric', 'constant.language', 'constant.character'],
+                settings: { foreground: palette.number }
+            },
+            {
+                name: 'Functions',
+                scope: ['entity.name.function', 'support.function', 'meta.function-call'],
+                settings: { foreground: palette.function }
+            },
+            {
+                name: 'Types & Classes',
+                scope: ['entity.name.type', 'entity.name.class', 'support.type', 'support.class'],
+                settings: { foreground: palette.type }
+            },
+            {
+                name: 'Variables',
+                scope: ['variable', 'meta.definition.variable'],
+                settings: { foreground: palette.variable }
+            },
+            {
+                name: 'Punctuation & Operators',
+                scope: ['punctuation', 'keyword.operator'],
+                settings: { foreground: palette.punctuation }
+            }
+        ];
+    }
+
+    /**
+     * Generate semantic token rules for a preset, matching its TextMate palette
+     * (language servers emit semantic tokens that override TextMate scopes)
+     */
+    public static generateSemanticTokenRules(preset: MoodPreset): SemanticTokenRules {
+        const palette = this.generateSyntaxPalette(preset);
+        return {
+            comment: { foreground: palette.comment, italic: true },
+            keyword: palette.keyword,
+            string: palette.string,
+            number: palette.number,
+            enumMember: palette.number,
+            function: palette.function,
+            method: palette.function,
+            class: palette.type,
+            interface: palette.type,
+            enum: palette.type,
+            type: palette.type,
+            typeParameter: palette.type,
+            namespace: palette.type,
+            variable: palette.variable,
+            parameter: palette.variable,
+            property: palette.variable,
+            operator: palette.punctuation
+        };
+    }
+
+    /**
+     * @param baseColor Color the harmony is derived from (the brand's primary color)
+     * @param roles Role colors to use as given; the harmony fills in the rest
+     * @param variant Theme kind to generate for (default: dark)
+     */
     public static createCustomMood(
         name: string,
         baseColor: string,
-        description?: string
+        description?: string,
+        colorSpace?: ColorSpace,
+        roles?: MoodRoles,
+        variant?: MoodVariant
     ): MoodPreset | undefined {
         const color = tinycolor(baseColor);
         if (!color.isValid()) {
@@ -296,7 +674,92 @@ export class MoodPresetsManager {
             baseHue: hsl.h,
             saturation: hsl.s * 100,
             brightness: hsl.l * 100,
-            colors: {}
+            colors: {},
+            colorSpace,
+            roles,
+            variant
+        };
+
+        preset.colors = this.generatePresetColors(preset);
+        return preset;
+    }
+
+    /**
+     * Change a saved mood and regenerate its colors
+     *
+     * @param changes.baseColor New color to derive the harmony from
+     * @param changes.roles Roles to set; an empty string removes a role
+     * @returns The updated mood, or undefined if baseColor is not a color
+     */
+    public static updateCustomMood(
+        preset: MoodPreset,
+        changes: { description?: string; baseColor?: string; colorSpace?: ColorSpace; roles?: MoodRoles; variant?: MoodVariant }
+    ): MoodPreset | undefined {
+        const updated: MoodPreset = { ...preset, colors: {} };
+        if (changes.baseColor) {
+            const color = tinycolor(changes.baseColor);
+            if (!color.isValid()) {
+                return undefined;
+            }
+            const hsl = color.toHsl();
+            updated.baseHue = hsl.h;
+            updated.saturation = hsl.s * 100;
+            updated.brightness = hsl.l * 100;
+        }
+        if (changes.description !== undefined) {
+            updated.description = changes.description;
+        }
+        if (changes.colorSpace) {
+            updated.colorSpace = changes.colorSpace;
+        }
+        if (changes.variant) {
+            updated.variant = changes.variant;
+        }
+        if (changes.roles) {
+            const roles: MoodRoles = { ...preset.roles, ...changes.roles };
+            for (const role of MOOD_ROLES) {
+                if (!roles[role]) {
+                    delete roles[role];
+                }
+            }
+            updated.roles = Object.keys(roles).length > 0 ? roles : undefined;
+        }
+
+        updated.colors = this.generatePresetColors(updated);
+        return updated;
+    }
+
+    /**
+     * Create a mood from the roles picked from an image by assignRoles
+     *
+     * The harmony comes from the accent as in createCustomMood, at a depth that
+     * puts generated backgrounds near the image background; the picked colors
+     * become the background, surface, foreground, primary and secondary roles.
+     */
+    public static createFromPalette(
+        name: string,
+        roles: PaletteRoles,
+        description?: string,
+        colorSpace?: ColorSpace
+    ): MoodPreset {
+        const accent = tinycolor(roles.accent).toHsl();
+        const preset: MoodPreset = {
+            name,
+            description: description || `Custom mood from ${roles.background}, ${roles.accent} and ${roles.secondaryAccent}`,
+            emoji: '🖼️',
+            baseHue: accent.h,
+            saturation: accent.s * 100,
+            brightness: Math.min(95, tinycolor(roles.background).toHsl().l * 100 + 25),
+            colors: {},
+            colorSpace,
+            variant: roles.kind,
+            roles: {
+                background: roles.background,
+                surface: roles.surface,
+                foreground: roles.foreground,
+                primary: roles.accent,
+                secondary: roles.secondaryAccent
+            }
         };
 
         preset.colors = this.generatePresetColors(preset);
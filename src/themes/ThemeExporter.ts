@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ColorMap } from '../colors/groups';
+import type { ThemeKind, TokenColorCustomizations } from '../bridge/protocol';
+import { MoodPresetsManager, SemanticTokenRules, TokenColorRule } from './MoodPresets';
+
+/**
+ * The `type` field of a VS Code color theme file
+ */
+export type ColorThemeType = 'dark' | 'light' | 'hc' | 'hcLight';
+
+/**
+ * Contents of a `*-color-theme.json` file
+ */
+export interface ColorThemeDocument {
+    $schema: string;
+    name: string;
+    type: ColorThemeType;
+    colors: ColorMap;
+    tokenColors: TokenColorRule[];
+    semanticHighlighting: boolean;
+    semanticTokenColors: SemanticTokenRules;
+}
+
+/**
+ * Files written when scaffolding a theme extension
+ */
+export interface ScaffoldResult {
+    folder: string;
+    files: string[];
+}
+
+/**
+ * ThemeExporter - turns color customizations into a shareable VS Code color theme
+ *
+ * Has no vscode dependency, so both the extension command and the standalone
+ * MCP server can use it. Keys the user has not customized are filled in from
+ * the mood generator, so the exported theme looks the same regardless of the
+ * base theme it was designed on.
+ */
+export class ThemeExporter {
+    private static readonly SCHEMA_URL = 'vscode://schemas/color-theme';
+
+    // Keys most likely to carry the design's accent color, in order of preference
+    private static readonly SEED_KEYS = [
+        'activityBar.activeBorder',
+        'button.background',
+        'editorCursor.foreground',
+        'focusBorder',
+        'statusBar.background',
+        'editor.background'
+    ];
+
+    private static readonly DEFAULT_SEED = '#007acc';
+
+    /**
+     * Build a complete color theme from customizations
+     *
+     * @param name Theme name shown in the theme picker
+     * @param kind Kind of the base theme the customizations were made on (keys they leave out are filled from a mood of the same kind)
+     * @param colors Current color customizations (these always win)
+     * @param tokenColors Current syntax customizations (layered over the generated syntax palette)
+     */
+    public static buildTheme(
+        name: string,
+        kind: ThemeKind,
+        colors: ColorMap,
+        tokenColors?: TokenColorCustomizations
+    ): ColorThemeDocument {
+        const seedKey = this.SEED_KEYS.find(key => colors[key]);
+        const seed = seedKey ? colors[seedKey].slice(0, 7) : this.DEFAULT_SEED;
+        const mood = MoodPresetsManager.createCustomMood(name, seed, undefined, undefined, undefined, kind)
+            ?? MoodPresetsManager.createCustomMood(name, this.DEFAULT_SEED, undefined, undefined, undefined, kind)!;
+
+        return {
+            $schema: this.SCHEMA_URL,
+            name,
+            type: this.toThemeType(kind),
+            colors: { ...mood.colors, ...colors },
+            // Later TextMate rules win, so customizations go after the generated ones
+            tokenColors: [...MoodPresetsManager.generateTokenColors(mood), ...(tokenColors?.textMateRules ?? [])],
+            semanticHighlighting: true,
+            semanticTokenColors: {
+                ...MoodPresetsManager.generateSemanticTokenRules(mood),
+                ...(tokenColors?.semanticTokenRules ?? {})
+            }
+        };
+    }
+
+    /**
+     * File name for a theme (e.g., "Demo Day" → "demo-day-color-theme.json")
+     */
+    public static fileNameFor(theme: ColorThemeDocument): string {
+        return `${this.slugify(theme.name)}-color-theme.json`;
+    }
+
+    /**
+     * Write a theme file
+     *
+     * @param theme Theme to write
+     * @param outputPath Absolute path of a `.json` file, or of a directory to write into
+     * @returns Absolute path of the written file
+     */
+    public static async writeTheme(theme: ColorThemeDocument, outputPath: string): Promise<string> {
+        const filePath = outputPath.toLowerCase().endsWith('.json')
+            ? outputPath
+            : path.join(outputPath, this.fileNameFor(theme));
+
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, JSON.stringify(theme, null, 4) + '\n', 'utf8');
+        return filePath;
+    }
+
+    /**
+     * Scaffold a minimal installable theme extension
+     *
+     * Creates `package.json` (with `contributes.themes`) and `themes/<name>-color-theme.json`
+     * inside `<parentFolder>/<slug>`.
+     *
+     * @param theme Theme to package
+     * @param parentFolder Absolute path of the folder to create the extension in
+     * @param publisher Publisher ID for package.json (default: "local")
+     */
+    public static async scaffoldExtension(
+        theme: ColorThemeDocument,
+        parentFolder: string,
+        publisher: string = 'local'
+    ): Promise<ScaffoldResult> {
+        const slug = this.slugify(theme.name);
+        const folder = path.join(parentFolder, slug);
+        const themeFile = await this.writeTheme(theme, path.join(folder, 'themes'));
+
+        const manifest = {
+            name: slug,
+            displayName: theme.name,
+            description: `${theme.name} color theme`,
+            version: '0.0.1',
+            publisher,
+            engines: { vscode: '^1.70.0' },
+            categories: ['Themes'],
+            contributes: {
+                themes: [
+                    {
+                        label: theme.name,
+                        uiTheme: this.toUiTheme(theme.type),
+                        path: `./themes/${path.basename(themeFile)}`
+                    }
+                ]
+            }
+        };
+
+        const manifestFile = path.join(folder, 'package.json');
+        await fs.promises.writeFile(manifestFile, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+
+        return { folder, files: [manifestFile, themeFile] };
+    }
+
+    private static toThemeType(kind: ThemeKind): ColorThemeType {
+        switch (kind) {
+            case 'light':
+                return 'light';
+            case 'highContrastDark':
+                return 'hc';
+            case 'highContrastLight':
+                return 'hcLight';
+            default:
+                return 'dark';
+        }
+    }
+
+    private static toUiTheme(type: ColorThemeType): string {
+        switch (type) {
+            case 'light':
+                return 'vs';
+            case 'hc':
+                return 'hc-black';
+            case 'hcLight':
+                return 'hc-light';
+            default:
+                return 'vs-dark';
+        }
+    }
+
+    private static slugify(name: string): string {
+        return name
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '') || 'custom-theme';
+    }
+}
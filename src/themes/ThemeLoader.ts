@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, ParseError, printParseErrorCode } from 'jsonc-parser';
+import type { ColorMap } from '../colors/groups';
+import type { TokenColorRule } from './MoodPresets';
+import type { ColorThemeType } from './ThemeExporter';
+
+/**
+ * A color theme file with its `include` chain resolved
+ */
+export interface LoadedColorTheme {
+    name?: string;
+    type?: ColorThemeType;
+    colors: ColorMap;
+    tokenColors: TokenColorRule[];
+    files: string[];           // Every file read, from the root theme down the include chain
+}
+
+/**
+ * Raw shape of a theme file as written on disk (all fields optional)
+ */
+interface RawColorTheme {
+    name?: string;
+    type?: ColorThemeType;
+    include?: string;
+    colors?: ColorMap;
+    tokenColors?: TokenColorRule[] | string;
+}
+
+/**
+ * ThemeLoader - reads VS Code `*-color-theme.json` files
+ *
+ * Theme files are JSONC (comments and trailing commas are allowed) and may
+ * `include` another theme file relative to themselves. Included values are
+ * applied first so the including file wins, the same way VS Code resolves them.
+ *
+ * Parse errors are reported as `file:line:column: message` so they point at
+ * the offending line.
+ */
+export class ThemeLoader {
+    private static readonly MAX_INCLUDE_DEPTH = 16;
+
+    /**
+     * Load a theme file and everything it includes
+     *
+     * @param filePath Absolute path of the theme file
+     * @throws Error on unreadable files, parse errors or include cycles
+     */
+    public static async load(filePath: string): Promise<LoadedColorTheme> {
+        return this.loadChain(path.resolve(filePath), []);
+    }
+
+    private static async loadChain(filePath: string, seen: string[]): Promise<LoadedColorTheme> {
+        if (seen.includes(filePath)) {
+            throw new Error(`Theme include cycle: ${[...seen, filePath].join(' → ')}`);
+        }
+        if (seen.length >= this.MAX_INCLUDE_DEPTH) {
+            throw new Error(`Theme include chain is deeper than ${this.MAX_INCLUDE_DEPTH} files: ${filePath}`);
+        }
+
+        const raw = this.parseFile(filePath, await fs.promises.readFile(filePath, 'utf8'));
+
+        const base: LoadedColorTheme = raw.include
+            ? await this.loadChain(path.resolve(path.dirname(filePath), raw.include), [...seen, filePath])
+            : { colors: {}, tokenColors: [], files: [] };
+
+        return {
+            name: raw.name ?? base.name,
+            type: raw.type ?? base.type,
+            colors: { ...base.colors, ...this.colorEntries(raw.colors) },
+            // tokenColors may also point at a .tmTheme file, which we don't read
+            tokenColors: [...base.tokenColors, ...(Array.isArray(raw.tokenColors) ? raw.tokenColors : [])],
+            files: [filePath, ...base.files],
+        };
+    }
+
+    /**
+     * Parse JSONC text, reporting the first error with its line and column
+     */
+    private static parseFile(filePath: string, text: string): RawColorTheme {
+        const errors: ParseError[] = [];
+        const value = parse(text, errors, { allowTrailingComma: true, disallowComments: false });
+
+        if (errors.length > 0) {
+            const { offset, error } = errors[0];
+            const { line, column } = this.positionAt(text, offset);
+            throw new Error(`${filePath}:${line}:${column}: ${printParseErrorCode(error)}`);
+        }
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new Error(`${filePath}:1:1: Theme file must contain a JSON object`);
+        }
+
+        return value as RawColorTheme;
+    }
+
+    /**
+     * Keep only string color values (themes sometimes use null to unset a key)
+     */
+    private static colorEntries(colors: ColorMap | undefined): ColorMap {
+        const result: ColorMap = {};
+        for (const [key, value] of Object.entries(colors ?? {})) {
+            if (typeof value === 'string') {
+                result[key] = value;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 1-based line and column of an offset, for parse error messages
+     */
+    public static positionAt(text: string, offset: number): { line: number; column: number } {
+        const before = text.slice(0, offset);
+        const line = before.split('\n').length;
+        const column = offset - before.lastIndexOf('\n');
+        return { line, column };
+    }
+}
@@ -1,40 +1,279 @@
 import * as vscode from 'vscode';
 import { ColorMap } from '../colors/groups';
+import { COLOR_SETTINGS } from '../bridge/protocol';
+import type { ActiveThemeInfo, ColorInspection, ColorSetting, ThemeKind, ThemeScopeInfo, TokenColorCustomizations } from '../bridge/protocol';
+import type { SemanticTokenRules, TokenColorRule } from '../themes/MoodPresets';
+import { AccessibilityPolicy, DEFAULT_ACCESSIBILITY_POLICY } from '../colors/accessibility';
+
+/**
+ * Raw value of workbench.colorCustomizations: flat color keys plus optional
+ * "[Theme Name]" blocks that only apply when a matching theme is active
+ */
+export type ColorCustomizations = Record<string, string | ColorMap>;
+
+/**
+ * True for "[Theme Name]" block keys
+ */
+function isScopeKey(key: string): boolean {
+  return key.startsWith('[');
+}
+
+/**
+ * Normalise a theme scope to its block key ("One Dark Pro" → "[One Dark Pro]")
+ */
+function toScopeKey(themeScope: string): string {
+  return isScopeKey(themeScope) ? themeScope : `[${themeScope}]`;
+}
+
+/**
+ * Strip the brackets from a block key ("[One Dark Pro]" → "One Dark Pro")
+ */
+function fromScopeKey(scopeKey: string): string {
+  return isScopeKey(scopeKey) ? scopeKey.replace(/^\[|\]$/g, '') : scopeKey;
+}
+
+/**
+ * Check whether a block key applies to a theme
+ * Supports multiple names ("[Theme A][Theme B]") and "*" wildcards ("[*Dark*]"), like VS Code.
+ */
+function scopeMatches(scopeKey: string, themeName: string): boolean {
+  const names = scopeKey.match(/\[[^\]]*\]/g) ?? [];
+  return names.some(name => {
+    const pattern = name.slice(1, -1).trim().split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${pattern}$`).test(themeName);
+  });
+}
+
+/**
+ * Split customizations into unscoped keys and keys from blocks matching a theme
+ * (block values win over unscoped ones when both are applied)
+ */
+function splitColors(raw: ColorCustomizations, themeName: string): { unscoped: ColorMap; scoped: ColorMap } {
+  const unscoped: ColorMap = {};
+  const scoped: ColorMap = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === 'string' && !isScopeKey(key)) {
+      unscoped[key] = value;
+    } else if (isScopeKey(key) && typeof value === 'object' && value !== null && scopeMatches(key, themeName)) {
+      Object.assign(scoped, value);
+    }
+  }
+  return { unscoped, scoped };
+}
+
+/**
+ * Read a setting at one level (via inspect), or the merged value when no target is given
+ */
+function valueAt<T>(
+  config: vscode.WorkspaceConfiguration,
+  section: string,
+  target?: vscode.ConfigurationTarget
+): T | undefined {
+  if (target === undefined) {
+    return config.get<T>(section);
+  }
+
+  const inspected = config.inspect<T>(section);
+  switch (target) {
+    case vscode.ConfigurationTarget.Workspace:
+      return inspected?.workspaceValue;
+    case vscode.ConfigurationTarget.WorkspaceFolder:
+      return inspected?.workspaceFolderValue;
+    default:
+      return inspected?.globalValue;
+  }
+}
+
+/**
+ * Object to edit inside a token customization setting: the root, or a "[Theme Name]" block
+ */
+function scopedSection(root: Record<string, unknown>, themeScope?: string): Record<string, unknown> {
+  if (!themeScope) {
+    return root;
+  }
+  const scopeKey = toScopeKey(themeScope);
+  const section = { ...(root[scopeKey] as Record<string, unknown> | undefined) };
+  root[scopeKey] = section;
+  return section;
+}
 
 export class VSCodeConfig {
-  private config: vscode.WorkspaceConfiguration;
+  /**
+   * @param resource Folder (or file inside it) whose settings to use; required to
+   *   read or write the WorkspaceFolder level in a multi-root workspace
+   */
+  constructor(readonly resource?: vscode.Uri) {}
+
+  /**
+   * Fresh configuration snapshot on every access
+   * (WorkspaceConfiguration objects do not reflect later updates)
+   */
+  private get config(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('workbench', this.resource);
+  }
+
+  /**
+   * Editor section, which holds the syntax token customizations
+   */
+  private get editorConfig(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('editor', this.resource);
+  }
+
+  /**
+   * Raw workbench.colorCustomizations value, including "[Theme Name]" blocks
+   *
+   * @param target Settings level to read (default: the merged value VS Code applies)
+   */
+  private getRawColors(target?: vscode.ConfigurationTarget): ColorCustomizations {
+    return { ...valueAt<ColorCustomizations>(this.config, 'colorCustomizations', target) };
+  }
+
+  /**
+   * Colors stored at one level: the unscoped keys, or the keys of one "[Theme Name]" block
+   *
+   * @param themeScope Theme block to read (default: unscoped keys)
+   * @param target Settings level to read (default: merged across levels)
+   */
+  async getStoredColors(themeScope?: string, target?: vscode.ConfigurationTarget): Promise<ColorMap> {
+    const raw = this.getRawColors(target);
+
+    if (themeScope) {
+      const block = raw[toScopeKey(themeScope)];
+      return typeof block === 'object' && block !== null ? { ...block } : {};
+    }
 
-  constructor() {
-    this.config = vscode.workspace.getConfiguration('workbench');
+    return splitColors(raw, '').unscoped;
   }
 
   /**
-   * Get current color customizations
+   * Get current color customizations as they apply to a theme
+   *
+   * Unscoped keys are overlaid with every "[Theme Name]" block matching the theme,
+   * so nested blocks are never returned as if they were colors.
+   *
+   * @param themeScope Theme to resolve for (default: the active theme)
+   * @param target Settings level to read (default: merged across levels)
    */
-  async getCurrentColors(): Promise<ColorMap> {
-    const colors = this.config.get<ColorMap>('colorCustomizations', {});
-    return colors;
+  async getCurrentColors(themeScope?: string, target?: vscode.ConfigurationTarget): Promise<ColorMap> {
+    const { unscoped, scoped } = splitColors(this.getRawColors(target), this.resolveThemeName(themeScope));
+    return { ...unscoped, ...scoped };
   }
 
   /**
    * Get a specific color value
    */
-  async getColor(key: string): Promise<string | undefined> {
-    const colors = await this.getCurrentColors();
+  async getColor(
+    key: string,
+    themeScope?: string,
+    target?: vscode.ConfigurationTarget
+  ): Promise<string | undefined> {
+    const colors = await this.getCurrentColors(themeScope, target);
     return colors[key];
   }
 
+  /**
+   * Report a color's value at every settings level and where the effective value comes from
+   *
+   * VS Code merges the object across levels before applying theme blocks, so a
+   * matching "[Theme Name]" value at any level beats an unscoped value at a higher one.
+   *
+   * @param themeScope Theme to resolve for (default: the active theme)
+   */
+  inspectColor(key: string, themeScope?: string): ColorInspection {
+    const themeName = this.resolveThemeName(themeScope);
+    const inspected = this.config.inspect<ColorCustomizations>('colorCustomizations');
+    const levels: Array<[NonNullable<ColorInspection['source']>, ColorCustomizations | undefined]> = [
+      ['Default', inspected?.defaultValue],
+      ['Global', inspected?.globalValue],
+      ['Workspace', inspected?.workspaceValue],
+      ['WorkspaceFolder', inspected?.workspaceFolderValue],
+    ];
+
+    const result: ColorInspection = { key, theme: themeName, fromThemeBlock: false };
+    const valueKeys = {
+      Default: 'defaultValue',
+      Global: 'globalValue',
+      Workspace: 'workspaceValue',
+      WorkspaceFolder: 'workspaceFolderValue',
+    } as const;
+
+    // Lowest precedence first, so later levels override earlier ones
+    for (const [level, raw] of levels) {
+      const { unscoped, scoped } = splitColors(raw ?? {}, themeName);
+      result[valueKeys[level]] = scoped[key] ?? unscoped[key];
+
+      if (scoped[key] !== undefined) {
+        result.effectiveValue = scoped[key];
+        result.source = level;
+        result.fromThemeBlock = true;
+      } else if (unscoped[key] !== undefined && !result.fromThemeBlock) {
+        result.effectiveValue = unscoped[key];
+        result.source = level;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * List the "[Theme Name]" blocks that have their own overrides
+   *
+   * @param target Settings level to read (default: merged across levels)
+   */
+  listThemeScopes(target?: vscode.ConfigurationTarget): ThemeScopeInfo[] {
+    const activeTheme = this.getActiveThemeInfo().name;
+    return Object.entries(this.getRawColors(target))
+      .filter(([key, value]) => isScopeKey(key) && typeof value === 'object' && value !== null)
+      .map(([key, value]) => ({
+        scope: fromScopeKey(key),
+        keyCount: Object.keys(value as ColorMap).length,
+        appliesToActiveTheme: scopeMatches(key, activeTheme),
+      }));
+  }
+
+  /**
+   * Write the colors stored at one level, leaving every other level untouched
+   */
+  private async writeStoredColors(
+    colors: ColorMap,
+    target: vscode.ConfigurationTarget,
+    themeScope?: string
+  ): Promise<void> {
+    const raw = this.getRawColors(target);
+
+    if (themeScope) {
+      const scopeKey = toScopeKey(themeScope);
+      if (Object.keys(colors).length > 0) {
+        raw[scopeKey] = { ...colors };
+      } else {
+        delete raw[scopeKey];
+      }
+    } else {
+      for (const key of Object.keys(raw)) {
+        if (!isScopeKey(key)) {
+          delete raw[key];
+        }
+      }
+      Object.assign(raw, colors);
+    }
+
+    await this.config.update('colorCustomizations', raw, target);
+  }
+
   /**
    * Set a single color
    */
   async setColor(
     key: string,
     value: string,
-    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
   ): Promise<void> {
-    const colors = await this.getCurrentColors();
+    const colors = await this.getStoredColors(themeScope, target);
     colors[key] = value;
-    await this.config.update('colorCustomizations', colors, target);
+    await this.writeStoredColors(colors, target, themeScope);
   }
 
   /**
@@ -42,11 +281,12 @@ export class VSCodeConfig {
    */
   async setColors(
     newColors: ColorMap,
-    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
   ): Promise<void> {
-    const currentColors = await this.getCurrentColors();
+    const currentColors = await this.getStoredColors(themeScope, target);
     const mergedColors = { ...currentColors, ...newColors };
-    await this.config.update('colorCustomizations', mergedColors, target);
+    await this.writeStoredColors(mergedColors, target, themeScope);
   }
 
   /**
@@ -54,20 +294,192 @@ export class VSCodeConfig {
    */
   async resetColor(
     key: string,
-    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
   ): Promise<void> {
-    const colors = await this.getCurrentColors();
+    const colors = await this.getStoredColors(themeScope, target);
     delete colors[key];
-    await this.config.update('colorCustomizations', colors, target);
+    await this.writeStoredColors(colors, target, themeScope);
   }
 
   /**
-   * Reset all color customizations
+   * Write a mix of new values and removals in a single update
+   * (undefined values remove the key)
+   */
+  async applyValues(
+    values: Record<string, string | undefined>,
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
+  ): Promise<void> {
+    const colors = await this.getStoredColors(themeScope, target);
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) {
+        delete colors[key];
+      } else {
+        colors[key] = value;
+      }
+    }
+    await this.writeStoredColors(colors, target, themeScope);
+  }
+
+  /**
+   * Replace all color customizations at one level with the given map
+   */
+  async replaceColors(
+    colors: ColorMap,
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
+  ): Promise<void> {
+    await this.writeStoredColors(colors, target, themeScope);
+  }
+
+  /**
+   * Reset all color customizations at one level
+   * (without a theme scope, "[Theme Name]" blocks are kept)
    */
   async resetAllColors(
-    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
+  ): Promise<void> {
+    await this.writeStoredColors({}, target, themeScope);
+  }
+
+  /**
+   * Get current syntax token customizations as they apply to a theme
+   *
+   * @param themeScope Theme to resolve for (default: the active theme)
+   * @param target Settings level to read (default: merged across levels)
+   */
+  async getTokenColors(themeScope?: string, target?: vscode.ConfigurationTarget): Promise<TokenColorCustomizations> {
+    const themeName = this.resolveThemeName(themeScope);
+    const textMate = valueAt<Record<string, any>>(this.editorConfig, 'tokenColorCustomizations', target) ?? {};
+    const semantic = valueAt<Record<string, any>>(this.editorConfig, 'semanticTokenColorCustomizations', target) ?? {};
+
+    const result: TokenColorCustomizations = {
+      textMateRules: [...(textMate.textMateRules ?? [])],
+      semanticTokenRules: { ...(semantic.rules ?? {}) },
+    };
+
+    for (const [key, block] of Object.entries(textMate)) {
+      if (isScopeKey(key) && scopeMatches(key, themeName)) {
+        result.textMateRules.push(...(block?.textMateRules ?? []));
+      }
+    }
+    for (const [key, block] of Object.entries(semantic)) {
+      if (isScopeKey(key) && scopeMatches(key, themeName)) {
+        Object.assign(result.semanticTokenRules, block?.rules ?? {});
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Syntax token rules stored at one level: the top-level rules, or the rules of one "[Theme Name]" block
+   *
+   * @param themeScope Theme block to read (default: top-level rules)
+   * @param target Settings level to read (default: merged across levels)
+   */
+  async getStoredTokenColors(themeScope?: string, target?: vscode.ConfigurationTarget): Promise<TokenColorCustomizations> {
+    const rulesAt = (setting: string, rulesKey: string) => {
+      const root = valueAt<Record<string, any>>(this.editorConfig, setting, target) ?? {};
+      const section = themeScope ? root[toScopeKey(themeScope)] ?? {} : root;
+      return section[rulesKey];
+    };
+
+    return {
+      textMateRules: [...(rulesAt('tokenColorCustomizations', 'textMateRules') ?? [])],
+      semanticTokenRules: { ...(rulesAt('semanticTokenColorCustomizations', 'rules') ?? {}) },
+    };
+  }
+
+  /**
+   * Replace the syntax token rules at one level (used by undo, redo and rollback)
+   *
+   * Other keys in either setting are kept; a setting whose rules are already
+   * equal is not written.
+   */
+  async replaceTokenColors(
+    tokenColors: TokenColorCustomizations,
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
   ): Promise<void> {
-    await this.config.update('colorCustomizations', {}, target);
+    const settings: [string, string, unknown, boolean][] = [
+      ['tokenColorCustomizations', 'textMateRules', tokenColors.textMateRules, tokenColors.textMateRules.length === 0],
+      ['semanticTokenColorCustomizations', 'rules', tokenColors.semanticTokenRules, Object.keys(tokenColors.semanticTokenRules).length === 0],
+    ];
+
+    for (const [setting, rulesKey, rules, empty] of settings) {
+      const stored = valueAt<Record<string, unknown>>(this.editorConfig, setting, target);
+      const current = { ...stored };
+      const section = scopedSection(current, themeScope);
+      if (empty) {
+        delete section[rulesKey];
+      } else {
+        section[rulesKey] = rules;
+      }
+      if (themeScope && Object.keys(section).length === 0) {
+        delete current[toScopeKey(themeScope)];
+      }
+
+      const value = Object.keys(current).length > 0 ? current : undefined;
+      if (JSON.stringify(value) !== JSON.stringify(stored)) {
+        await this.editorConfig.update(setting, value, target);
+      }
+    }
+  }
+
+  /**
+   * Merge syntax token rules into the current customizations
+   *
+   * TextMate rules replace existing rules with the same scope; semantic rules
+   * are merged by selector. Other keys in either setting are preserved.
+   */
+  async setTokenColors(
+    tokenColors: Partial<TokenColorCustomizations>,
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
+  ): Promise<void> {
+    const scopeKey = (rule: TokenColorRule) =>
+      Array.isArray(rule.scope) ? rule.scope.join(',') : rule.scope;
+
+    if (tokenColors.textMateRules && tokenColors.textMateRules.length > 0) {
+      const current = { ...valueAt<Record<string, unknown>>(this.editorConfig, 'tokenColorCustomizations', target) };
+      const section = scopedSection(current, themeScope);
+      const incoming = new Set(tokenColors.textMateRules.map(scopeKey));
+      const existing = (section.textMateRules as TokenColorRule[] | undefined) ?? [];
+      section.textMateRules = [
+        ...existing.filter(rule => !incoming.has(scopeKey(rule))),
+        ...tokenColors.textMateRules,
+      ];
+      await this.editorConfig.update('tokenColorCustomizations', current, target);
+    }
+
+    if (tokenColors.semanticTokenRules && Object.keys(tokenColors.semanticTokenRules).length > 0) {
+      const current = { ...valueAt<Record<string, unknown>>(this.editorConfig, 'semanticTokenColorCustomizations', target) };
+      const section = scopedSection(current, themeScope);
+      section.rules = { ...(section.rules as SemanticTokenRules | undefined), ...tokenColors.semanticTokenRules };
+      await this.editorConfig.update('semanticTokenColorCustomizations', current, target);
+    }
+  }
+
+  /**
+   * Remove syntax token customizations (TextMate and semantic) at one level
+   * (without a theme scope, "[Theme Name]" blocks are kept)
+   */
+  async resetTokenColors(
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    themeScope?: string
+  ): Promise<void> {
+    for (const [setting, rulesKey] of [['tokenColorCustomizations', 'textMateRules'], ['semanticTokenColorCustomizations', 'rules']]) {
+      const current = { ...valueAt<Record<string, unknown>>(this.editorConfig, setting, target) };
+      if (themeScope) {
+        delete current[toScopeKey(themeScope)];
+      } else {
+        delete current[rulesKey];
+      }
+      await this.editorConfig.update(setting, Object.keys(current).length > 0 ? current : undefined, target);
+    }
   }
 
   /**
@@ -78,15 +490,64 @@ export class VSCodeConfig {
   }
 
   /**
-   * Listen for configuration changes
+   * Get the active theme's name (from workbench.colorTheme) and kind
+   */
+  getActiveThemeInfo(): ActiveThemeInfo {
+    const kinds: Record<vscode.ColorThemeKind, ThemeKind> = {
+      [vscode.ColorThemeKind.Dark]: 'dark',
+      [vscode.ColorThemeKind.Light]: 'light',
+      [vscode.ColorThemeKind.HighContrast]: 'highContrastDark',
+      [vscode.ColorThemeKind.HighContrastLight]: 'highContrastLight',
+    };
+
+    return {
+      name: this.config.get<string>('colorTheme', ''),
+      kind: kinds[this.getActiveTheme().kind] ?? 'dark',
+    };
+  }
+
+  /**
+   * Theme name to resolve "[Theme Name]" blocks against
+   * (the scope without brackets, or the active theme when no scope is given)
+   */
+  resolveThemeName(themeScope?: string): string {
+    return themeScope ? fromScopeKey(themeScope) : this.getActiveThemeInfo().name;
+  }
+
+  /**
+   * Read the accessibility guardrail settings (8b-theme-mcp.accessibility.*)
+   */
+  getAccessibilityPolicy(): AccessibilityPolicy {
+    const settings = vscode.workspace.getConfiguration('8b-theme-mcp.accessibility', this.resource);
+    const minimumContrast = settings.get<number>('minimumContrast', DEFAULT_ACCESSIBILITY_POLICY.minimumContrast);
+    const mode = settings.get<AccessibilityPolicy['mode']>('mode', DEFAULT_ACCESSIBILITY_POLICY.mode);
+
+    return {
+      minimumContrast: Math.min(Math.max(minimumContrast, 1), 21),
+      mode: ['warn', 'block', 'autoFix'].includes(mode) ? mode : DEFAULT_ACCESSIBILITY_POLICY.mode,
+    };
+  }
+
+  /**
+   * Listen for changes to any color customization setting, at any level
+   *
+   * @param callback Receives the event and the color settings it affects
    */
   onConfigurationChanged(
-    callback: (event: vscode.ConfigurationChangeEvent) => void
+    callback: (event: vscode.ConfigurationChangeEvent, settings: ColorSetting[]) => void
   ): vscode.Disposable {
     return vscode.workspace.onDidChangeConfiguration(event => {
-      if (event.affectsConfiguration('workbench.colorCustomizations')) {
-        callback(event);
+      const settings = COLOR_SETTINGS.filter(setting => event.affectsConfiguration(setting));
+      if (settings.length > 0) {
+        callback(event, settings);
       }
     });
   }
+
+  /**
+   * Listen for the active color theme being switched
+   */
+  onActiveThemeChanged(callback: (theme: ActiveThemeInfo) => void): vscode.Disposable {
+    return vscode.window.onDidChangeActiveColorTheme(() => callback(this.getActiveThemeInfo()));
+  }
 }
@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import type { CustomMood } from '../bridge/protocol';
+
+/**
+ * CustomMoodStore - moods created by the assistant, persisted in extension global state
+ *
+ * Moods are shared across workspaces and survive window reloads, so a team
+ * can build up a library of moods and apply them by name later. Names are
+ * matched case-insensitively, like preset names.
+ */
+export class CustomMoodStore {
+  private static readonly STORAGE_KEY = '8b-theme-mcp.customMoods';
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * List all custom moods, oldest first
+   */
+  list(): CustomMood[] {
+    return Object.values(this.load()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Save a mood, replacing one with the same name (which keeps its creation time)
+   */
+  async save(mood: Omit<CustomMood, 'createdAt' | 'updatedAt'>): Promise<CustomMood> {
+    const moods = this.load();
+    const key = mood.name.toLowerCase();
+    const now = new Date().toISOString();
+
+    const saved: CustomMood = {
+      ...mood,
+      createdAt: moods[key]?.createdAt ?? now,
+      updatedAt: now,
+    };
+    moods[key] = saved;
+    await this.state.update(CustomMoodStore.STORAGE_KEY, moods);
+    return saved;
+  }
+
+  /**
+   * Rename a mood
+   *
+   * @throws Error if there is no such mood or the new name is taken
+   */
+  async rename(name: string, newName: string): Promise<CustomMood> {
+    const moods = this.load();
+    const mood = moods[name.toLowerCase()];
+    if (!mood) {
+      throw new Error(`Custom mood "${name}" not found. Available: ${Object.values(moods).map(m => m.name).join(', ') || 'none'}`);
+    }
+    const key = newName.toLowerCase();
+    if (moods[key] && key !== name.toLowerCase()) {
+      throw new Error(`Custom mood "${moods[key].name}" already exists`);
+    }
+
+    const renamed: CustomMood = {
+      ...mood,
+      name: newName,
+      preset: { ...mood.preset, name: newName },
+      updatedAt: new Date().toISOString(),
+    };
+    delete moods[name.toLowerCase()];
+    moods[key] = renamed;
+    await this.state.update(CustomMoodStore.STORAGE_KEY, moods);
+    return renamed;
+  }
+
+  /**
+   * Delete a mood
+   *
+   * @returns True if a mood with that name existed
+   */
+  async delete(name: string): Promise<boolean> {
+    const moods = this.load();
+    if (!moods[name.toLowerCase()]) {
+      return false;
+    }
+
+    delete moods[name.toLowerCase()];
+    await this.state.update(CustomMoodStore.STORAGE_KEY, moods);
+    return true;
+  }
+
+  private load(): Record<string, CustomMood> {
+    return { ...this.state.get<Record<string, CustomMood>>(CustomMoodStore.STORAGE_KEY, {}) };
+  }
+}
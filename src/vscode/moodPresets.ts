@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import type { MoodPresetFiles } from '../bridge/protocol';
+import { MoodPresetLoader } from '../themes/MoodPresetLoader';
+
+/**
+ * MoodPresetWatcher - mood presets from the user and workspace preset directories
+ *
+ * Reads ~/.8b-moods and the .vscode/8b-moods folder of every local workspace
+ * folder (in that order, so a workspace preset replaces a user preset of the
+ * same name), and fires onDidChange when a preset file is created, edited or
+ * deleted, or a workspace folder is added or removed.
+ */
+export class MoodPresetWatcher implements vscode.Disposable {
+  private readonly changed = new vscode.EventEmitter<void>();
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private readonly listener: vscode.Disposable;
+
+  readonly onDidChange = this.changed.event;
+
+  constructor() {
+    this.watch();
+    this.listener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      this.watch();
+      this.changed.fire();
+    });
+  }
+
+  /**
+   * Preset directories, lowest precedence first
+   */
+  directories(): string[] {
+    const folders = (vscode.workspace.workspaceFolders ?? []).filter(folder => folder.uri.scheme === 'file');
+    return [
+      MoodPresetLoader.userDirectory(),
+      ...folders.map(folder => MoodPresetLoader.workspaceDirectory(folder.uri.fsPath)),
+    ];
+  }
+
+  /**
+   * Read every preset file, collecting the presets and files that failed validation
+   */
+  async load(): Promise<MoodPresetFiles> {
+    const directories = this.directories();
+    const loaded = await MoodPresetLoader.loadDirectories(directories);
+    return { directories, ...loaded };
+  }
+
+  dispose(): void {
+    this.listener.dispose();
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.changed.dispose();
+  }
+
+  private watch(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = this.directories().map(directory => {
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(directory), '*.json'));
+      watcher.onDidCreate(() => this.changed.fire());
+      watcher.onDidChange(() => this.changed.fire());
+      watcher.onDidDelete(() => this.changed.fire());
+      return watcher;
+    });
+  }
+}
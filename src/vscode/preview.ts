@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import type { ColorMap } from '../colors/groups';
+import type { ColorValues } from '../bridge/history';
+import type { ChangeOrigin, ColorScope, PreviewStatus } from '../bridge/protocol';
+
+/**
+ * A running preview: what was applied, where, and what to put back
+ */
+export interface PreviewSession extends ColorScope {
+  origin: ChangeOrigin;                // Tool that started the preview
+  colors: ColorMap;                    // Colors currently previewed
+  before: ColorValues;                 // Values to restore (undefined = key was not set)
+  expiresAt: string;                   // ISO 8601 time of the automatic revert
+}
+
+/**
+ * Default and maximum preview length in seconds
+ */
+export const DEFAULT_PREVIEW_SECONDS = 30;
+export const MAX_PREVIEW_SECONDS = 600;
+
+/**
+ * ColorPreview - temporary color changes that revert unless confirmed
+ *
+ * Previewed colors are written to settings (VS Code has no in-memory color
+ * API), but the values they replaced are kept in memory and in global state.
+ * The preview reverts when the countdown runs out, when the extension
+ * deactivates, and, if the window was closed or reloaded first, on the next
+ * activation via recover().
+ *
+ * Previewing again while a preview runs adds to it and restarts the countdown;
+ * the original values are still what gets restored. Other writes to previewed
+ * keys are refused by BridgeServer until the preview ends (see keysAt).
+ */
+export class ColorPreview implements vscode.Disposable {
+  private static readonly STORAGE_KEY = '8b-theme-mcp.preview';
+
+  private session: PreviewSession | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private readonly statusItem: vscode.StatusBarItem;
+
+  /**
+   * @param state Memento the running session is persisted in
+   * @param read Reads the colors stored at a scope's level
+   * @param apply Writes values (undefined removes the key) at a scope's level
+   * @param expire Called when the countdown runs out; should end up calling cancel()
+   */
+  constructor(
+    private readonly state: vscode.Memento,
+    private readonly read: (scope: ColorScope) => Promise<ColorMap>,
+    private readonly apply: (scope: ColorScope, values: ColorValues) => Promise<void>,
+    private readonly expire: () => Promise<unknown>
+  ) {
+    this.statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    this.statusItem.command = '8b-theme-mcp.confirmPreview';
+  }
+
+  /**
+   * Revert a preview left behind by a previous window (reload, crash or quit)
+   */
+  async recover(): Promise<void> {
+    const leftover = this.state.get<PreviewSession>(ColorPreview.STORAGE_KEY);
+    if (leftover && !this.session) {
+      await this.apply(leftover, leftover.before);
+      await this.state.update(ColorPreview.STORAGE_KEY, undefined);
+    }
+  }
+
+  /**
+   * Apply colors temporarily
+   *
+   * A running preview at a different scope is reverted first.
+   *
+   * @param colors Colors to preview
+   * @param scope Where to write them
+   * @param origin Tool that requested the preview
+   * @param seconds Time until the automatic revert (clamped to 1..MAX_PREVIEW_SECONDS)
+   */
+  async start(
+    colors: ColorMap,
+    scope: ColorScope,
+    origin: ChangeOrigin,
+    seconds: number = DEFAULT_PREVIEW_SECONDS
+  ): Promise<PreviewStatus> {
+    if (this.session && !this.sameScope(this.session, scope)) {
+      await this.cancel();
+    }
+
+    const duration = Math.min(Math.max(Math.round(seconds), 1), MAX_PREVIEW_SECONDS);
+    const stored = await this.read(scope);
+    const previous = this.session;
+    const before: ColorValues = { ...previous?.before };
+    for (const key of Object.keys(colors)) {
+      if (!(key in before)) {
+        before[key] = stored[key];
+      }
+    }
+
+    this.session = {
+      target: scope.target,
+      themeScope: scope.themeScope,
+      folderUri: scope.folderUri,
+      origin,
+      colors: { ...previous?.colors, ...colors },
+      before,
+      expiresAt: new Date(Date.now() + duration * 1000).toISOString(),
+    };
+
+    // Persist before writing, so a crash mid-preview still gets reverted
+    await this.state.update(ColorPreview.STORAGE_KEY, this.session);
+    await this.apply(scope, colors);
+    this.startCountdown();
+
+    if (!previous) {
+      vscode.window
+        .showInformationMessage(`🎨 Previewing ${Object.keys(colors).length} colors for ${duration}s`, 'Keep', 'Revert')
+        .then(choice => {
+          if (choice === 'Keep') {
+            vscode.commands.executeCommand('8b-theme-mcp.confirmPreview');
+          } else if (choice === 'Revert') {
+            vscode.commands.executeCommand('8b-theme-mcp.cancelPreview');
+          }
+        });
+    }
+
+    return this.status();
+  }
+
+  /**
+   * Keep the previewed colors
+   *
+   * @returns The confirmed session, or undefined if no preview was running
+   */
+  async confirm(): Promise<PreviewSession | undefined> {
+    const session = this.session;
+    await this.end();
+    return session;
+  }
+
+  /**
+   * Revert the previewed colors now
+   *
+   * @returns The reverted session, or undefined if no preview was running
+   */
+  async cancel(): Promise<PreviewSession | undefined> {
+    const session = this.session;
+    if (session) {
+      await this.apply(session, session.before);
+    }
+    await this.end();
+    return session;
+  }
+
+  /**
+   * Keys the running preview will restore at a scope's level (empty if none)
+   */
+  keysAt(scope: ColorScope): string[] {
+    return this.session && this.sameScope(this.session, scope) ? Object.keys(this.session.colors) : [];
+  }
+
+  /**
+   * Describe the running preview
+   */
+  status(): PreviewStatus {
+    if (!this.session) {
+      return { active: false, keys: [], secondsLeft: 0 };
+    }
+
+    return {
+      active: true,
+      keys: Object.keys(this.session.colors),
+      secondsLeft: this.secondsLeft(),
+      expiresAt: this.session.expiresAt,
+      target: this.session.target,
+      themeScope: this.session.themeScope,
+      folderUri: this.session.folderUri,
+    };
+  }
+
+  dispose(): void {
+    this.stopCountdown();
+    this.statusItem.dispose();
+  }
+
+  private async end(): Promise<void> {
+    this.session = undefined;
+    this.stopCountdown();
+    await this.state.update(ColorPreview.STORAGE_KEY, undefined);
+  }
+
+  private startCountdown(): void {
+    this.stopCountdown();
+    this.updateStatusItem();
+    this.statusItem.show();
+
+    this.timer = setInterval(() => {
+      if (this.secondsLeft() > 0) {
+        this.updateStatusItem();
+        return;
+      }
+
+      this.stopCountdown();
+      this.expire().catch(error => {
+        console.error('[ColorPreview] Failed to revert preview:', error instanceof Error ? error.message : error);
+      });
+    }, 1000);
+  }
+
+  private stopCountdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.statusItem.hide();
+  }
+
+  private updateStatusItem(): void {
+    const left = this.secondsLeft();
+    const time = `${Math.floor(left / 60)}:${String(left % 60).padStart(2, '0')}`;
+    this.statusItem.text = `$(eye) Color preview ${time}`;
+    this.statusItem.tooltip = 'Click to keep the previewed colors. Run "8b Theme MCP: Revert Color Preview" to undo them now.';
+  }
+
+  private secondsLeft(): number {
+    if (!this.session) {
+      return 0;
+    }
+    return Math.max(0, Math.ceil((Date.parse(this.session.expiresAt) - Date.now()) / 1000));
+  }
+
+  private sameScope(a: ColorScope, b: ColorScope): boolean {
+    return (a.target ?? 'Global') === (b.target ?? 'Global')
+      && a.themeScope === b.themeScope
+      && a.folderUri === b.folderUri;
+  }
+}
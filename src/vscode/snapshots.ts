@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import type { ThemeSnapshot, ThemeSnapshotSummary } from '../bridge/protocol';
+
+/**
+ * SnapshotStore - named theme snapshots persisted in extension global state
+ *
+ * Snapshots survive window reloads and are shared across workspaces, so
+ * "save this as demo-day" can be restored from any project later.
+ */
+export class SnapshotStore {
+  private static readonly STORAGE_KEY = '8b-theme-mcp.snapshots';
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * List all snapshots, newest first
+   */
+  list(): ThemeSnapshotSummary[] {
+    return Object.values(this.load())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(snapshot => this.summarize(snapshot));
+  }
+
+  /**
+   * Get a snapshot by name
+   */
+  get(name: string): ThemeSnapshot | undefined {
+    return this.load()[name];
+  }
+
+  /**
+   * Save colors under a name
+   *
+   * @param contents Colors as they applied, and where each level stored them
+   * @throws Error if the name is taken and overwrite is not set
+   */
+  async save(
+    name: string,
+    contents: Pick<ThemeSnapshot, 'colors' | 'levels' | 'folderUri'>,
+    description?: string,
+    overwrite: boolean = false
+  ): Promise<ThemeSnapshotSummary> {
+    const snapshots = this.load();
+    if (snapshots[name] && !overwrite) {
+      throw new Error(`Snapshot "${name}" already exists. Pass overwrite: true to replace it.`);
+    }
+
+    const snapshot: ThemeSnapshot = {
+      name,
+      description,
+      createdAt: new Date().toISOString(),
+      colors: { ...contents.colors },
+      levels: contents.levels,
+      folderUri: contents.folderUri,
+    };
+    snapshots[name] = snapshot;
+    await this.state.update(SnapshotStore.STORAGE_KEY, snapshots);
+
+    return this.summarize(snapshot);
+  }
+
+  /**
+   * Delete a snapshot
+   *
+   * @returns True if a snapshot with that name existed
+   */
+  async delete(name: string): Promise<boolean> {
+    const snapshots = this.load();
+    if (!snapshots[name]) {
+      return false;
+    }
+
+    delete snapshots[name];
+    await this.state.update(SnapshotStore.STORAGE_KEY, snapshots);
+    return true;
+  }
+
+  private load(): Record<string, ThemeSnapshot> {
+    return { ...this.state.get<Record<string, ThemeSnapshot>>(SnapshotStore.STORAGE_KEY, {}) };
+  }
+
+  private summarize(snapshot: ThemeSnapshot): ThemeSnapshotSummary {
+    return {
+      name: snapshot.name,
+      description: snapshot.description,
+      createdAt: snapshot.createdAt,
+      keyCount: Object.keys(snapshot.colors).length,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { ColorMap } from '../colors/groups';
+import type { EffectiveColor, EffectiveColors, ThemeKind } from '../bridge/protocol';
+import { ThemeLoader } from '../themes/ThemeLoader';
+import * as themeDefaultsData from '../../data/theme-defaults.json';
+import { VSCodeConfig } from './config';
+
+/**
+ * VS Code's registered defaults for common keys, used when a theme leaves a key out
+ */
+const THEME_DEFAULTS = themeDefaultsData as unknown as Record<ThemeKind, ColorMap>;
+
+/**
+ * Entry of an extension's `contributes.themes`
+ */
+interface ThemeContribution {
+  id?: string;
+  label?: string;
+  uiTheme?: string;
+  path?: string;
+}
+
+/**
+ * A theme file's colors with its include chain applied
+ */
+interface LoadedTheme {
+  kind?: ThemeKind;
+  colors: ColorMap;
+  files: string[];
+}
+
+/**
+ * Map a contribution's uiTheme to a theme kind
+ */
+function toThemeKind(uiTheme?: string): ThemeKind | undefined {
+  switch (uiTheme) {
+    case 'vs':
+      return 'light';
+    case 'vs-dark':
+      return 'dark';
+    case 'hc-black':
+      return 'highContrastDark';
+    case 'hc-light':
+      return 'highContrastLight';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * ThemeColorResolver - works out the colors VS Code actually renders
+ *
+ * Customizations win, then the base theme's own file (found through the
+ * `contributes.themes` of installed extensions, built-in themes included), then
+ * VS Code's defaults for the theme kind. Loaded themes are cached until the set
+ * of installed extensions changes.
+ */
+export class ThemeColorResolver implements vscode.Disposable {
+  private cache = new Map<string, Promise<LoadedTheme>>();
+  private readonly listener: vscode.Disposable;
+
+  constructor() {
+    this.listener = vscode.extensions.onDidChange(() => this.cache.clear());
+  }
+
+  /**
+   * Resolve effective colors for a theme
+   *
+   * @param config Settings to read customizations from
+   * @param themeScope Theme to resolve for (default: the active theme)
+   * @param keys Keys to resolve (default: every key known from customizations, theme or defaults)
+   */
+  async resolve(config: VSCodeConfig, themeScope?: string, keys?: string[]): Promise<EffectiveColors> {
+    const active = config.getActiveThemeInfo();
+    const themeName = config.resolveThemeName(themeScope);
+    const [custom, theme] = await Promise.all([config.getCurrentColors(themeScope), this.loadTheme(themeName)]);
+
+    // Only the active theme's kind is known without its file
+    const kind = theme.kind ?? (themeName === active.name ? active.kind : 'dark');
+    const defaults = THEME_DEFAULTS[kind] ?? {};
+
+    const resolvedKeys = keys ?? [
+      ...new Set([...Object.keys(defaults), ...Object.keys(theme.colors), ...Object.keys(custom)]),
+    ].sort();
+
+    const colors: Record<string, EffectiveColor> = {};
+    for (const key of resolvedKeys) {
+      if (custom[key] !== undefined) {
+        colors[key] = { effectiveValue: custom[key], customValue: custom[key], source: 'custom' };
+      } else if (theme.colors[key] !== undefined) {
+        colors[key] = { effectiveValue: theme.colors[key], source: 'theme' };
+      } else if (defaults[key] !== undefined) {
+        colors[key] = { effectiveValue: defaults[key], source: 'default' };
+      } else {
+        colors[key] = { source: 'unknown' };
+      }
+    }
+
+    return { theme: themeName, kind, themeFiles: theme.files, colors };
+  }
+
+  dispose(): void {
+    this.listener.dispose();
+    this.cache.clear();
+  }
+
+  private loadTheme(themeName: string): Promise<LoadedTheme> {
+    let loaded = this.cache.get(themeName);
+    if (!loaded) {
+      loaded = this.findAndLoad(themeName);
+      this.cache.set(themeName, loaded);
+    }
+    return loaded;
+  }
+
+  /**
+   * Find the extension contributing a theme and load its file
+   * (workbench.colorTheme holds the contribution's id, or its label when there is no id)
+   */
+  private async findAndLoad(themeName: string): Promise<LoadedTheme> {
+    for (const extension of vscode.extensions.all) {
+      const themes: ThemeContribution[] = extension.packageJSON?.contributes?.themes ?? [];
+      const match = themes.find(theme => (theme.id ?? theme.label) === themeName);
+      if (!match?.path) {
+        continue;
+      }
+
+      const kind = toThemeKind(match.uiTheme);
+      try {
+        const loaded = await ThemeLoader.load(path.join(extension.extensionPath, match.path));
+        return { kind, colors: loaded.colors, files: loaded.files };
+      } catch (error) {
+        // A broken theme file shouldn't break color reads; fall back to the defaults
+        console.warn(`[ThemeColorResolver] Could not load theme "${themeName}":`, error instanceof Error ? error.message : error);
+        return { kind, colors: {}, files: [] };
+      }
+    }
+
+    return { colors: {}, files: [] };
+  }
+}